@@ -4,13 +4,23 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { UnreadCountsProvider } from "@/hooks/useUnreadCounts";
+import { PresenceProvider } from "@/hooks/usePresence";
+import { OutboxProvider } from "@/hooks/useOutbox";
+import { useRoles } from "@/hooks/useRoles";
+import EncryptionKeyGate from "@/components/EncryptionKeyGate";
+import SuspensionGate from "@/components/SuspensionGate";
+import { AppRole, canModerate } from "@/lib/roles";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Discover from "./pages/Discover";
 import Chats from "./pages/Chats";
 import Chat from "./pages/Chat";
+import DirectChatRedirect from "./pages/DirectChatRedirect";
 import Requests from "./pages/Requests";
 import Profile from "./pages/Profile";
+import AdminReports from "./pages/AdminReports";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,9 +36,41 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     );
   }
   
-  return user ? <>{children}</> : <Navigate to="/auth" />;
+  if (!user) {
+    return <Navigate to="/auth" />;
+  }
+
+  return (
+    <SuspensionGate>
+      <EncryptionKeyGate>{children}</EncryptionKeyGate>
+    </SuspensionGate>
+  );
+};
+
+// Only for users whose roles pass the check; everyone else is sent home.
+// The server checks the role again on every privileged request.
+const RoleRoute = ({ allow, children }: { allow: (roles: AppRole[]) => boolean; children: React.ReactNode }) => {
+  const roles = useRoles();
+
+  if (roles === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return allow(roles) ? <>{children}</> : <Navigate to="/" replace />;
 };
 
+const ModeratorRoute = ({ children }: { children: React.ReactNode }) => (
+  <RoleRoute allow={canModerate}>{children}</RoleRoute>
+);
+
+const AdminRoute = ({ children }: { children: React.ReactNode }) => (
+  <RoleRoute allow={(roles) => roles.includes("admin")}>{children}</RoleRoute>
+);
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
@@ -36,52 +78,86 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route
-              path="/discover"
-              element={
-                <ProtectedRoute>
-                  <Discover />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/chats"
-              element={
-                <ProtectedRoute>
-                  <Chats />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/chat/:userId"
-              element={
-                <ProtectedRoute>
-                  <Chat />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/requests"
-              element={
-                <ProtectedRoute>
-                  <Requests />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/profile"
-              element={
-                <ProtectedRoute>
-                  <Profile />
-                </ProtectedRoute>
-              }
-            />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <UnreadCountsProvider>
+            <PresenceProvider>
+              <OutboxProvider>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/auth" element={<Auth />} />
+                  <Route
+                    path="/discover"
+                    element={
+                      <ProtectedRoute>
+                        <Discover />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/chats"
+                    element={
+                      <ProtectedRoute>
+                        <Chats />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/chat/:userId"
+                    element={
+                      <ProtectedRoute>
+                        <DirectChatRedirect />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/c/:chatId"
+                    element={
+                      <ProtectedRoute>
+                        <Chat />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/requests"
+                    element={
+                      <ProtectedRoute>
+                        <Requests />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/profile"
+                    element={
+                      <ProtectedRoute>
+                        <Profile />
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin"
+                    element={
+                      <ProtectedRoute>
+                        <AdminRoute>
+                          <Admin />
+                        </AdminRoute>
+                      </ProtectedRoute>
+                    }
+                  />
+                  <Route
+                    path="/admin/reports"
+                    element={
+                      <ProtectedRoute>
+                        <ModeratorRoute>
+                          <AdminReports />
+                        </ModeratorRoute>
+                      </ProtectedRoute>
+                    }
+                  />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </OutboxProvider>
+            </PresenceProvider>
+          </UnreadCountsProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
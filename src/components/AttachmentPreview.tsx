@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText, Film, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { AttachmentInfo } from '@/lib/crypto';
+import { getAttachmentKind, loadAttachment } from '@/lib/attachments';
+
+interface AttachmentPreviewProps {
+  /** Decrypted attachment details from the message payload */
+  attachment?: AttachmentInfo;
+  /** Public URL stored on messages sent before attachments were encrypted */
+  legacyUrl?: string | null;
+  fileName: string;
+}
+
+const AttachmentPreview = ({ attachment, legacyUrl, fileName }: AttachmentPreviewProps) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const kind = getAttachmentKind(attachment, legacyUrl);
+  const name = attachment?.name ?? fileName;
+  const FileIcon = kind === 'image' ? ImageIcon : kind === 'video' ? Film : FileText;
+
+  // Images and videos are decrypted into an object URL for inline preview;
+  // other files are only fetched when downloaded
+  useEffect(() => {
+    if (kind === 'file') return;
+
+    let url: string | null = null;
+    let cancelled = false;
+
+    loadAttachment(attachment, legacyUrl)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+      })
+      .catch((error) => {
+        console.error('Failed to load attachment:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, legacyUrl, kind]);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const downloadUrl = objectUrl ?? URL.createObjectURL(await loadAttachment(attachment, legacyUrl));
+      const link = document.createElement('a');
+      link.href = downloadUrl;
+      link.download = name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      if (downloadUrl !== objectUrl) {
+        URL.revokeObjectURL(downloadUrl);
+      }
+    } catch (error) {
+      console.error('Download error:', error);
+      toast.error('Failed to download file');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {kind === 'image' && objectUrl ? (
+        <img src={objectUrl} alt={name} className="rounded-lg max-w-full h-auto max-h-64 object-cover" />
+      ) : kind === 'video' && objectUrl ? (
+        <video src={objectUrl} controls className="rounded-lg max-w-full h-auto max-h-64" />
+      ) : (
+        <div className="flex items-center gap-2 p-2 bg-black/10 rounded-lg">
+          {kind !== 'file' && !failed ? (
+            <Loader2 className="w-8 h-8 animate-spin" />
+          ) : (
+            <FileIcon className="w-8 h-8" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">{name}</p>
+            {attachment && (
+              <p className="text-xs opacity-70">{(attachment.size / 1024 / 1024).toFixed(2)} MB</p>
+            )}
+          </div>
+        </div>
+      )}
+      <button
+        type="button"
+        onClick={handleDownload}
+        disabled={downloading}
+        className="flex items-center gap-2 text-xs hover:underline disabled:opacity-50"
+      >
+        <Download className="w-3 h-3" />
+        Download
+      </button>
+    </div>
+  );
+};
+
+export default AttachmentPreview;
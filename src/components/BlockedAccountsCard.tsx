@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Ban, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { BlockedAccount, fetchBlockedAccounts, unblockUser } from '@/lib/blocks';
+
+interface BlockedAccountsCardProps {
+  userId: string;
+}
+
+const BlockedAccountsCard = ({ userId }: BlockedAccountsCardProps) => {
+  const [accounts, setAccounts] = useState<BlockedAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unblockingId, setUnblockingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAccounts();
+
+    // Blocks made from a chat or Discover show up without a reload
+    const channel = supabase
+      .channel(`blocks:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'blocks',
+          filter: `blocker_id=eq.${userId}`,
+        },
+        () => loadAccounts()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  const loadAccounts = async () => {
+    try {
+      setAccounts(await fetchBlockedAccounts(userId));
+    } catch (error) {
+      console.error('Error fetching blocked accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnblock = async (account: BlockedAccount) => {
+    setUnblockingId(account.id);
+    try {
+      await unblockUser(userId, account.id);
+      setAccounts((current) => current.filter((a) => a.id !== account.id));
+      toast.success(`${account.full_name} was unblocked`);
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      toast.error('Failed to unblock');
+    } finally {
+      setUnblockingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-start gap-3">
+        <Ban className="w-5 h-5 mt-1 text-primary" />
+        <div>
+          <h2 className="text-lg font-semibold">Blocked accounts</h2>
+          <p className="text-sm text-muted-foreground">
+            Blocked people can't follow you or message you, and you won't find each other in Discover.
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      ) : accounts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">You haven't blocked anyone.</p>
+      ) : (
+        <div className="space-y-3">
+          {accounts.map((account) => (
+            <div key={account.id} className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3 min-w-0">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={account.avatar_url || undefined} />
+                  <AvatarFallback className="bg-gradient-primary text-primary-foreground">
+                    {account.full_name.substring(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{account.full_name}</p>
+                  <p className="text-sm text-muted-foreground truncate">@{account.username}</p>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleUnblock(account)}
+                disabled={unblockingId === account.id}
+              >
+                {unblockingId === account.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Unblock
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default BlockedAccountsCard;
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Search } from 'lucide-react';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ChatMemberProfile } from '@/lib/groups';
+
+interface ConnectionPickerProps {
+  connections: ChatMemberProfile[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+}
+
+/** Searchable checklist of the user's connections */
+const ConnectionPicker = ({ connections, selectedIds, onChange }: ConnectionPickerProps) => {
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const filteredConnections = connections.filter(
+    (connection) =>
+      connection.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      connection.username.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const toggle = (id: string, checked: boolean) => {
+    onChange(checked ? [...selectedIds, id] : selectedIds.filter((selectedId) => selectedId !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search connections..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {filteredConnections.length === 0 ? (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            {connections.length === 0 ? 'No connections to add' : 'No connections found'}
+          </p>
+        ) : (
+          filteredConnections.map((connection) => (
+            <label
+              key={connection.id}
+              className="flex items-center gap-3 rounded-lg p-2 cursor-pointer hover:bg-accent"
+            >
+              <Checkbox
+                checked={selectedIds.includes(connection.id)}
+                onCheckedChange={(checked) => toggle(connection.id, checked === true)}
+              />
+              <Avatar className="h-8 w-8">
+                <AvatarImage src={connection.avatar_url || undefined} />
+                <AvatarFallback className="bg-gradient-primary text-primary-foreground text-xs">
+                  {connection.full_name.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{connection.full_name}</p>
+                <p className="text-xs text-muted-foreground truncate">@{connection.username}</p>
+              </div>
+            </label>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionPicker;
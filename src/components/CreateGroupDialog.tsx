@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ConnectionPicker from '@/components/ConnectionPicker';
+import { ChatMemberProfile, createGroupChat, fetchConnections } from '@/lib/groups';
+import { chatPath } from '@/lib/chatRouting';
+
+interface CreateGroupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+}
+
+const CreateGroupDialog = ({ open, onOpenChange, userId }: CreateGroupDialogProps) => {
+  const navigate = useNavigate();
+  const [name, setName] = useState('');
+  const [connections, setConnections] = useState<ChatMemberProfile[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName('');
+    setSelectedIds([]);
+    fetchConnections(userId)
+      .then(setConnections)
+      .catch((error) => {
+        console.error('Error loading connections:', error);
+        toast.error('Failed to load your connections');
+      });
+  }, [open, userId]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const chatId = await createGroupChat(name.trim(), selectedIds);
+      onOpenChange(false);
+      navigate(chatPath(chatId));
+    } catch (error) {
+      console.error('Error creating group:', error);
+      toast.error('Failed to create group');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>New group</DialogTitle>
+          <DialogDescription>Groups can include any of your connections.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Group name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Members</Label>
+            <ConnectionPicker connections={connections} selectedIds={selectedIds} onChange={setSelectedIds} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            onClick={handleCreate}
+            disabled={!name.trim() || selectedIds.length === 0 || creating}
+            className="bg-gradient-primary"
+          >
+            {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreateGroupDialog;
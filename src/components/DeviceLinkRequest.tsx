@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Loader2, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  PendingLink,
+  cancelLinkRequest,
+  createLinkRequest,
+  formatLinkCode,
+  subscribeToLinkApproval,
+} from '@/lib/deviceLinking';
+
+interface DeviceLinkRequestProps {
+  userId: string;
+  onLinked: () => void;
+}
+
+/** Shown on a new browser: displays a linking code and waits for approval */
+const DeviceLinkRequest = ({ userId, onLinked }: DeviceLinkRequestProps) => {
+  const [link, setLink] = useState<PendingLink | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  useEffect(() => {
+    if (!link) return;
+
+    const unsubscribe = subscribeToLinkApproval(userId, link, onLinked, (error) => {
+      console.error('Error completing device link:', error);
+      toast.error('Failed to link this device. Try again with a new code.');
+      setLink(null);
+    });
+
+    return () => {
+      unsubscribe();
+      // Harmless if the request was already completed and removed
+      cancelLinkRequest(link.id).catch(() => undefined);
+    };
+  }, [link]);
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      setLink(await createLinkRequest(userId));
+    } catch (error) {
+      console.error('Error creating link request:', error);
+      toast.error('Failed to create a linking code');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  if (!link) {
+    return (
+      <Button onClick={handleStart} disabled={starting} className="w-full bg-gradient-primary">
+        {starting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Smartphone className="w-4 h-4 mr-2" />}
+        Link with another device
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-center">
+      <p className="text-sm text-muted-foreground">
+        On a device where you're already signed in, scan this code or open your profile, choose
+        "Link a device" and enter the code below.
+      </p>
+      <div className="bg-white p-4 rounded-lg w-fit mx-auto">
+        <QRCodeSVG
+          value={`${window.location.origin}/profile?link=${link.code}&request=${link.id}&key=${link.fingerprint}`}
+          size={160}
+        />
+      </div>
+      <p className="font-mono text-2xl tracking-widest">{formatLinkCode(link.code)}</p>
+      <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Waiting for approval...
+      </div>
+      <Button variant="ghost" onClick={() => setLink(null)}>
+        Cancel
+      </Button>
+    </div>
+  );
+};
+
+export default DeviceLinkRequest;
@@ -0,0 +1,195 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import DeviceLinkRequest from '@/components/DeviceLinkRequest';
+import { hasLocalIdentity } from '@/lib/crypto';
+import {
+  clearLocalDevice,
+  fetchDevices,
+  getLocalDeviceId,
+  getLocalDeviceStatus,
+  revokeOtherDevices,
+  touchDevice,
+} from '@/lib/devices';
+import { InvalidPassphraseError, fetchBackupStatus, restoreBackup } from '@/lib/keyBackup';
+import { ensurePrekeys } from '@/lib/sessions';
+
+type GateState = 'checking' | 'setup' | 'ready';
+
+/** Registers this browser as a device and publishes its keys */
+const registerDevice = async (userId: string) => {
+  await ensurePrekeys(userId);
+  await touchDevice(getLocalDeviceId(userId)!);
+};
+
+/**
+ * Makes sure this browser has encryption keys before any signed-in page
+ * loads. A browser without keys is offered to link with one of the user's
+ * other devices or to restore their backup first, since generating fresh keys
+ * would leave their past messages unreadable.
+ */
+const EncryptionKeyGate = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [state, setState] = useState<GateState>(() => (hasLocalIdentity(user!.id) ? 'ready' : 'checking'));
+  const [hasBackup, setHasBackup] = useState(false);
+  const [hasOtherDevices, setHasOtherDevices] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    const userId = user!.id;
+    const publishKeys = () => {
+      // Publish this device's encryption keys so contacts can message us
+      registerDevice(userId).catch((error) => {
+        console.error('Failed to set up encryption keys:', error);
+      });
+    };
+
+    const checkDevice = async () => {
+      if (hasLocalIdentity(userId)) {
+        if ((await getLocalDeviceStatus(userId)) !== 'revoked') {
+          publishKeys();
+          return;
+        }
+        await clearLocalDevice(userId);
+        toast.error('This device was removed from your account. Set it up again to keep chatting.');
+      }
+
+      const [backup, devices] = await Promise.all([fetchBackupStatus(userId), fetchDevices(userId)]);
+      if (!backup && devices.length === 0) {
+        publishKeys();
+        setState('ready');
+        return;
+      }
+
+      setHasBackup(!!backup);
+      setHasOtherDevices(devices.length > 0);
+      setState('setup');
+    };
+
+    checkDevice().catch((error) => {
+      console.error('Failed to check encryption keys:', error);
+      if (!hasLocalIdentity(userId)) {
+        toast.error('Could not check for your existing keys');
+        setHasBackup(true);
+        setState('setup');
+      }
+    });
+  }, [user]);
+
+  const handleLinked = async () => {
+    try {
+      await registerDevice(user!.id);
+      toast.success('This device is now linked');
+      setState('ready');
+    } catch (error) {
+      console.error('Error registering linked device:', error);
+      toast.error('Failed to finish linking this device');
+    }
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setRestoring(true);
+    try {
+      await restoreBackup(user!.id, passphrase);
+      await registerDevice(user!.id);
+      toast.success('Your keys have been restored');
+      setState('ready');
+    } catch (error) {
+      if (error instanceof InvalidPassphraseError) {
+        toast.error('Incorrect recovery passphrase');
+      } else {
+        console.error('Error restoring key backup:', error);
+        toast.error('Failed to restore your keys');
+      }
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleStartFresh = async () => {
+    const userId = user!.id;
+    try {
+      await registerDevice(userId);
+      // Other devices still hold the old identity key and can't follow along
+      await revokeOtherDevices(userId, getLocalDeviceId(userId)!);
+    } catch (error) {
+      console.error('Failed to set up encryption keys:', error);
+    }
+    setState('ready');
+  };
+
+  if (state === 'checking') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (state === 'setup') {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+        <Card className="p-8 w-full max-w-md space-y-6">
+          <div className="text-center space-y-2">
+            <div className="bg-gradient-primary rounded-2xl p-3 w-fit mx-auto">
+              <KeyRound className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <h1 className="text-2xl font-bold">Set up this device</h1>
+            <p className="text-muted-foreground">
+              This browser doesn't have your encryption keys yet. Bring them over to read your
+              existing conversations here.
+            </p>
+          </div>
+
+          {hasOtherDevices && <DeviceLinkRequest userId={user!.id} onLinked={handleLinked} />}
+
+          {hasBackup && (
+            <form onSubmit={handleRestore} className="space-y-4">
+              {hasOtherDevices && (
+                <p className="text-center text-sm text-muted-foreground">Or restore from your backup</p>
+              )}
+              <Input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Recovery passphrase"
+                autoFocus={!hasOtherDevices}
+              />
+              <Button
+                type="submit"
+                variant={hasOtherDevices ? 'outline' : 'default'}
+                disabled={!passphrase || restoring}
+                className={hasOtherDevices ? 'w-full' : 'w-full bg-gradient-primary'}
+              >
+                {restoring && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Restore keys
+              </Button>
+            </form>
+          )}
+
+          <div className="text-center text-sm text-muted-foreground space-y-2">
+            <p>
+              Starting fresh creates new keys. Messages sent before today will not be readable here
+              {hasOtherDevices && ', and your other devices will be signed out of encrypted chats'}.
+            </p>
+            <Button variant="link" onClick={handleStartFresh} disabled={restoring}>
+              Start fresh
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default EncryptionKeyGate;
@@ -0,0 +1,324 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Camera, Loader2, LogOut, MoreVertical, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ConnectionPicker from '@/components/ConnectionPicker';
+import {
+  ChatMemberProfile,
+  GroupMember,
+  addGroupMembers,
+  canManageGroup,
+  fetchConnections,
+  leaveGroup,
+  removeGroupMember,
+  setGroupMemberRole,
+  updateGroupDetails,
+  uploadGroupAvatar,
+} from '@/lib/groups';
+
+interface GroupSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  chatId: string;
+  userId: string;
+  group: {
+    name: string;
+    avatar_url: string | null;
+  };
+  members: GroupMember[];
+  /** Called after any change so the chat can reload the group */
+  onChanged: () => void;
+}
+
+const GroupSettingsDialog = ({
+  open,
+  onOpenChange,
+  chatId,
+  userId,
+  group,
+  members,
+  onChanged,
+}: GroupSettingsDialogProps) => {
+  const navigate = useNavigate();
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState(group.name);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [connections, setConnections] = useState<ChatMemberProfile[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const myRole = members.find((member) => member.id === userId)?.role;
+  const isAdmin = canManageGroup(myRole);
+  const memberIds = new Set(members.map((member) => member.id));
+
+  useEffect(() => {
+    if (open) {
+      setName(group.name);
+      setAdding(false);
+    }
+  }, [open, group.name]);
+
+  const startAdding = async () => {
+    setSelectedIds([]);
+    setAdding(true);
+    try {
+      setConnections(await fetchConnections(userId));
+    } catch (error) {
+      console.error('Error loading connections:', error);
+      toast.error('Failed to load your connections');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setSaving(true);
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (error) {
+      console.error(`${errorMessage}:`, error);
+      toast.error(errorMessage);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRename = () =>
+    runAction(() => updateGroupDetails(chatId, name.trim(), group.avatar_url), 'Failed to rename group');
+
+  const handleAvatarChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > 2 * 1024 * 1024) {
+      toast.error('Image must be less than 2MB');
+      return;
+    }
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please upload an image file');
+      return;
+    }
+
+    setUploading(true);
+    await runAction(async () => {
+      const avatarUrl = await uploadGroupAvatar(chatId, file);
+      await updateGroupDetails(chatId, group.name, avatarUrl);
+    }, 'Failed to update group picture');
+    setUploading(false);
+  };
+
+  const handleAddMembers = async () => {
+    const added = await runAction(() => addGroupMembers(chatId, selectedIds), 'Failed to add members');
+    if (added) setAdding(false);
+  };
+
+  const handleLeave = async () => {
+    const left = await runAction(() => leaveGroup(chatId), 'Failed to leave group');
+    if (left) {
+      toast.success(`You left ${group.name}`);
+      navigate('/chats');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Group settings</DialogTitle>
+          <DialogDescription>
+            {isAdmin ? 'Admins can change the group and its members.' : 'Only admins can change the group.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="flex items-end gap-4">
+            <button
+              type="button"
+              onClick={() => avatarInputRef.current?.click()}
+              disabled={!isAdmin || uploading}
+              className="relative shrink-0 rounded-full"
+              aria-label="Change group picture"
+            >
+              <Avatar className="h-16 w-16">
+                <AvatarImage src={group.avatar_url || undefined} />
+                <AvatarFallback className="bg-gradient-primary text-primary-foreground">
+                  {group.name.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              {isAdmin && (
+                <span className="absolute bottom-0 right-0 rounded-full bg-background p-1 shadow">
+                  {uploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Camera className="w-3 h-3" />}
+                </span>
+              )}
+            </button>
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept="image/*"
+              onChange={handleAvatarChange}
+              className="hidden"
+            />
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="group-settings-name">Group name</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="group-settings-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={!isAdmin}
+                  maxLength={100}
+                />
+                {isAdmin && (
+                  <Button
+                    variant="outline"
+                    onClick={handleRename}
+                    disabled={!name.trim() || name.trim() === group.name || saving}
+                  >
+                    Save
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{members.length} members</Label>
+              {isAdmin && !adding && (
+                <Button variant="ghost" size="sm" onClick={startAdding}>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Add members
+                </Button>
+              )}
+            </div>
+
+            {adding ? (
+              <div className="space-y-2">
+                <ConnectionPicker
+                  connections={connections.filter((connection) => !memberIds.has(connection.id))}
+                  selectedIds={selectedIds}
+                  onChange={setSelectedIds}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setAdding(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleAddMembers}
+                    disabled={selectedIds.length === 0 || saving}
+                    className="bg-gradient-primary"
+                  >
+                    Add
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="max-h-64 overflow-y-auto space-y-1">
+                {members.map((member) => {
+                  const isSelf = member.id === userId;
+                  // Admins manage members; only the owner manages admins
+                  const canRemove =
+                    !isSelf &&
+                    member.role !== 'owner' &&
+                    (myRole === 'owner' || (myRole === 'admin' && member.role === 'member'));
+                  const canChangeRole = !isSelf && myRole === 'owner';
+
+                  return (
+                    <div key={member.id} className="flex items-center gap-3 rounded-lg p-2">
+                      <Avatar className="h-8 w-8">
+                        <AvatarImage src={member.avatar_url || undefined} />
+                        <AvatarFallback className="bg-gradient-primary text-primary-foreground text-xs">
+                          {member.full_name.substring(0, 2).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {member.full_name}
+                          {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">@{member.username}</p>
+                      </div>
+                      {member.role !== 'member' && (
+                        <Badge variant="secondary" className="capitalize">
+                          {member.role}
+                        </Badge>
+                      )}
+                      {(canRemove || canChangeRole) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Member options">
+                              <MoreVertical className="w-4 h-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {canChangeRole && (
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  runAction(
+                                    () =>
+                                      setGroupMemberRole(chatId, member.id, member.role === 'admin' ? 'member' : 'admin'),
+                                    'Failed to change role'
+                                  )
+                                }
+                              >
+                                {member.role === 'admin' ? 'Remove as admin' : 'Make admin'}
+                              </DropdownMenuItem>
+                            )}
+                            {canRemove && (
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  runAction(() => removeGroupMember(chatId, member.id), 'Failed to remove member')
+                                }
+                                className="text-destructive focus:text-destructive"
+                              >
+                                Remove from group
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={handleLeave}
+            disabled={saving}
+            className="w-full text-destructive hover:text-destructive"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Leave group
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupSettingsDialog;
@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { MIN_PASSPHRASE_LENGTH, createBackup, deleteBackup, fetchBackupStatus } from '@/lib/keyBackup';
+
+interface KeyBackupCardProps {
+  userId: string;
+}
+
+const KeyBackupCard = ({ userId }: KeyBackupCardProps) => {
+  const [backupUpdatedAt, setBackupUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    fetchBackupStatus(userId)
+      .then((backup) => setBackupUpdatedAt(backup?.updated_at ?? null))
+      .catch((error) => {
+        console.error('Error fetching key backup:', error);
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const openDialog = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      toast.error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      toast.error('Passphrases do not match');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createBackup(userId, passphrase);
+      toast.success(backupUpdatedAt ? 'Recovery passphrase changed' : 'Key backup created');
+      setBackupUpdatedAt(new Date().toISOString());
+      setDialogOpen(false);
+    } catch (error) {
+      console.error('Error creating key backup:', error);
+      toast.error('Failed to back up your keys');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    try {
+      await deleteBackup(userId);
+      setBackupUpdatedAt(null);
+      toast.success('Key backup deleted');
+    } catch (error) {
+      console.error('Error deleting key backup:', error);
+      toast.error('Failed to delete key backup');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-start gap-3">
+        <KeyRound className="w-5 h-5 mt-1 text-primary" />
+        <div>
+          <h2 className="text-lg font-semibold">Key backup</h2>
+          <p className="text-sm text-muted-foreground">
+            Your messages can only be decrypted with keys stored in this browser. An encrypted backup
+            lets you restore them when you sign in somewhere else.
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      ) : backupUpdatedAt ? (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <ShieldCheck className="w-4 h-4 text-success" />
+            <span>Last backed up {new Date(backupUpdatedAt).toLocaleString()}</span>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={openDialog}>
+              Change passphrase
+            </Button>
+            <Button variant="ghost" onClick={handleDelete} disabled={deleting}>
+              {deleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Delete backup
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 rounded-lg bg-destructive/10 p-4">
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              Backup missing. If you lose this browser or clear its data, your message history cannot
+              be recovered.
+            </span>
+          </div>
+          <Button onClick={openDialog} className="bg-gradient-primary shrink-0">
+            Create backup
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{backupUpdatedAt ? 'Change recovery passphrase' : 'Create key backup'}</DialogTitle>
+              <DialogDescription>
+                Your keys are encrypted with this passphrase before they leave your browser. We can't
+                recover it for you, so keep it somewhere safe.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="backup-passphrase">Recovery passphrase</Label>
+              <Input
+                id="backup-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="backup-confirmation">Confirm passphrase</Label>
+              <Input
+                id="backup-confirmation"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={saving || !passphrase} className="bg-gradient-primary">
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save backup
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default KeyBackupCard;
@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Laptop, Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Device, fetchDevices, getLocalDeviceId, revokeDevice } from '@/lib/devices';
+import {
+  LinkRequest,
+  LINK_CODE_PLACEHOLDER,
+  approveLinkRequest,
+  findLinkRequests,
+  formatLinkCode,
+  isCompleteLinkCode,
+  normalizeLinkCode,
+} from '@/lib/deviceLinking';
+
+interface LinkedDevicesCardProps {
+  userId: string;
+}
+
+const LinkedDevicesCard = ({ userId }: LinkedDevicesCardProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [linkDialogOpen, setLinkDialogOpen] = useState(false);
+  const [code, setCode] = useState('');
+  const [linkRequestId, setLinkRequestId] = useState<string | undefined>();
+  const [linkFingerprint, setLinkFingerprint] = useState<string | undefined>();
+  const [candidates, setCandidates] = useState<LinkRequest[]>([]);
+  const [request, setRequest] = useState<LinkRequest | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [approving, setApproving] = useState(false);
+
+  const currentDeviceId = getLocalDeviceId(userId);
+
+  useEffect(() => {
+    loadDevices();
+
+    // Newly linked and revoked devices show up without a reload
+    const channel = supabase
+      .channel(`devices:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'devices',
+          filter: `user_id=eq.${userId}`,
+        },
+        () => loadDevices()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    // Scanning the QR code on a new browser opens this page with its request,
+    // code and key fingerprint
+    const linkCode = searchParams.get('link');
+    if (linkCode) {
+      openLinkDialog(linkCode, searchParams.get('request') ?? undefined, searchParams.get('key') ?? undefined);
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams]);
+
+  const loadDevices = async () => {
+    try {
+      setDevices(await fetchDevices(userId));
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openLinkDialog = (initialCode = '', requestId?: string, fingerprint?: string) => {
+    setCode(initialCode ? formatLinkCode(normalizeLinkCode(initialCode)) : '');
+    setLinkRequestId(requestId);
+    setLinkFingerprint(fingerprint);
+    setCandidates([]);
+    setRequest(null);
+    setLinkDialogOpen(true);
+  };
+
+  const handleFindRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isCompleteLinkCode(code)) return;
+
+    setSearching(true);
+    try {
+      const found = await findLinkRequests(userId, linkRequestId);
+      if (found.length === 1) {
+        setRequest(found[0]);
+      } else if (found.length > 1) {
+        setCandidates(found);
+      } else {
+        toast.error('No device is waiting to be linked. Codes expire after 10 minutes.');
+      }
+    } catch (error) {
+      console.error('Error finding link request:', error);
+      toast.error('Failed to look up the code');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!request) return;
+
+    setApproving(true);
+    try {
+      await approveLinkRequest(userId, request, code, linkFingerprint);
+      toast.success(`${request.device_name} is being linked`);
+      setLinkDialogOpen(false);
+    } catch (error) {
+      console.error('Error approving link request:', error);
+      toast.error('Failed to link the device');
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const handleRevoke = async (device: Device) => {
+    setRevokingId(device.id);
+    try {
+      await revokeDevice(device.id);
+      setDevices((current) => current.filter((d) => d.id !== device.id));
+      toast.success(`${device.name} was removed`);
+    } catch (error) {
+      console.error('Error revoking device:', error);
+      toast.error('Failed to remove the device');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Linked devices</h2>
+          <p className="text-sm text-muted-foreground">
+            Messages are encrypted separately for each of these devices. Remove any you no longer use.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => openLinkDialog()} className="shrink-0">
+          <Plus className="w-4 h-4 mr-2" />
+          Link a device
+        </Button>
+      </div>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      ) : (
+        <div className="space-y-3">
+          {devices.map((device) => (
+            <div key={device.id} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+              <div className="flex items-center gap-3">
+                <Laptop className="w-5 h-5 text-muted-foreground" />
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-semibold">{device.name}</p>
+                    {device.id === currentDeviceId && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Last active {formatDistanceToNow(new Date(device.last_seen_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+              {device.id !== currentDeviceId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(device)}
+                  disabled={revokingId === device.id}
+                >
+                  {revokingId === device.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Revoke
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={linkDialogOpen} onOpenChange={setLinkDialogOpen}>
+        <DialogContent>
+          {request ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Link {request.device_name}?</DialogTitle>
+                <DialogDescription>
+                  This copies your encryption keys to that device, so it can read your conversations.
+                  Only continue if you just started linking it yourself.
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setLinkDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleApprove} disabled={approving} className="bg-gradient-primary">
+                  {approving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Link device
+                </Button>
+              </DialogFooter>
+            </>
+          ) : candidates.length > 0 ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Which device are you linking?</DialogTitle>
+                <DialogDescription>
+                  More than one device is waiting. Pick the one showing the code you entered.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                {candidates.map((candidate) => (
+                  <Button
+                    key={candidate.id}
+                    variant="outline"
+                    onClick={() => setRequest(candidate)}
+                    className="w-full justify-between"
+                  >
+                    <span className="truncate">{candidate.device_name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(candidate.created_at), { addSuffix: true })}
+                    </span>
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <form onSubmit={handleFindRequest} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Link a device</DialogTitle>
+                <DialogDescription>
+                  Sign in on the new device and choose "Link with another device". Then enter the code
+                  it shows.
+                </DialogDescription>
+              </DialogHeader>
+              <Input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder={LINK_CODE_PLACEHOLDER}
+                className="font-mono text-center text-lg tracking-widest"
+                autoFocus
+              />
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={!isCompleteLinkCode(code) || searching}
+                  className="bg-gradient-primary"
+                >
+                  {searching && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Continue
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default LinkedDevicesCard;
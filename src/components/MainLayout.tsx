@@ -2,7 +2,11 @@ import { ReactNode } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
-import { MessageSquare, Users, LogOut, Bell } from 'lucide-react';
+import { useUnreadCounts } from '@/hooks/useUnreadCounts';
+import { useRoles } from '@/hooks/useRoles';
+import { canModerate } from '@/lib/roles';
+import { formatUnreadCount } from '@/lib/readReceipts';
+import { MessageSquare, Users, LogOut, Bell, Flag, Shield } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 
 interface MainLayoutProps {
@@ -13,11 +17,15 @@ const MainLayout = ({ children }: MainLayoutProps) => {
   const { signOut, user } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const { total: unreadTotal } = useUnreadCounts();
+  const roles = useRoles() ?? [];
 
   const navItems = [
-    { path: '/discover', icon: Users, label: 'Discover' },
-    { path: '/chats', icon: MessageSquare, label: 'Chats' },
-    { path: '/requests', icon: Bell, label: 'Requests' },
+    { path: '/discover', icon: Users, label: 'Discover', badge: 0 },
+    { path: '/chats', icon: MessageSquare, label: 'Chats', badge: unreadTotal },
+    { path: '/requests', icon: Bell, label: 'Requests', badge: 0 },
+    ...(canModerate(roles) ? [{ path: '/admin/reports', icon: Flag, label: 'Reports', badge: 0 }] : []),
+    ...(roles.includes('admin') ? [{ path: '/admin', icon: Shield, label: 'Admin', badge: 0 }] : []),
   ];
 
   return (
@@ -47,6 +55,11 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                   >
                     <Icon className="w-4 h-4 mr-2" />
                     {item.label}
+                    {item.badge > 0 && (
+                      <span className="ml-2 min-w-5 rounded-full bg-destructive px-1.5 text-xs font-semibold text-destructive-foreground">
+                        {formatUnreadCount(item.badge)}
+                      </span>
+                    )}
                   </Button>
                 );
               })}
@@ -84,7 +97,14 @@ const MainLayout = ({ children }: MainLayoutProps) => {
                   isActive ? 'text-primary' : 'text-muted-foreground'
                 }`}
               >
-                <Icon className="w-5 h-5" />
+                <div className="relative">
+                  <Icon className="w-5 h-5" />
+                  {item.badge > 0 && (
+                    <span className="absolute -top-2 -right-3 min-w-4 rounded-full bg-destructive px-1 text-[10px] font-semibold leading-4 text-destructive-foreground">
+                      {formatUnreadCount(item.badge)}
+                    </span>
+                  )}
+                </div>
                 <span className="text-xs">{item.label}</span>
               </button>
             );
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ChatCryptoContext, StoredMessage, UNDECRYPTABLE_MESSAGE, readMessagePayload } from '@/lib/messageCrypto';
+import { fetchRevisions } from '@/lib/messageEditing';
+
+interface MessageRevisionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cryptoContext: ChatCryptoContext;
+  message: StoredMessage & {
+    created_at: string;
+    edited_at: string | null;
+  };
+  /** Already decrypted text of the current version */
+  currentText: string;
+}
+
+interface DecryptedRevision {
+  id: string;
+  text: string;
+  writtenAt: string;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+const MessageRevisionsDialog = ({
+  open,
+  onOpenChange,
+  cryptoContext,
+  message,
+  currentText,
+}: MessageRevisionsDialogProps) => {
+  const [revisions, setRevisions] = useState<DecryptedRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    fetchRevisions(message.id)
+      .then((rows) =>
+        Promise.all(
+          rows.map(async (revision) => ({
+            id: revision.id,
+            text: (await readMessagePayload(cryptoContext, message, revision))?.text ?? UNDECRYPTABLE_MESSAGE,
+            writtenAt: revision.written_at,
+          }))
+        )
+      )
+      .then(setRevisions)
+      .catch((error) => {
+        console.error('Error loading message history:', error);
+      })
+      .finally(() => setLoading(false));
+  }, [open, message.id, message.edited_at]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit history</DialogTitle>
+          <DialogDescription>Earlier versions stay visible to everyone in this chat.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            <div className="rounded-lg bg-secondary p-3">
+              <p className="text-xs text-muted-foreground mb-1">
+                Current · {formatTime(message.edited_at ?? message.created_at)}
+              </p>
+              <p className="break-words">{currentText}</p>
+            </div>
+            {[...revisions].reverse().map((revision) => (
+              <div key={revision.id} className="rounded-lg border border-border p-3">
+                <p className="text-xs text-muted-foreground mb-1">{formatTime(revision.writtenAt)}</p>
+                <p className="break-words text-muted-foreground">{revision.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageRevisionsDialog;
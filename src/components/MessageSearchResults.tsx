@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { MIN_SEARCH_LENGTH, MessageSearchHit, getSnippet, searchMessages } from '@/lib/messageSearch';
+
+interface MessageSearchResultsProps {
+  userId: string;
+  query: string;
+  /** Limits the search to one chat */
+  chatId?: string;
+  /** Where the hit was sent, e.g. the chat or sender name */
+  describeHit: (hit: MessageSearchHit) => string;
+  onSelect: (hit: MessageSearchHit) => void;
+}
+
+/** Messages matching the query, searched once typing pauses */
+const MessageSearchResults = ({ userId, query, chatId, describeHit, onSelect }: MessageSearchResultsProps) => {
+  const [hits, setHits] = useState<MessageSearchHit[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    setHits([]);
+    if (query.trim().length < MIN_SEARCH_LENGTH) return;
+
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(() => {
+      searchMessages(userId, query, chatId)
+        .then((results) => {
+          if (!cancelled) setHits(results);
+        })
+        .catch((error) => {
+          console.error('Error searching messages:', error);
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      setSearching(false);
+    };
+  }, [userId, query, chatId]);
+
+  if (query.trim().length < MIN_SEARCH_LENGTH) {
+    return (
+      <p className="py-4 text-center text-sm text-muted-foreground">
+        Type at least {MIN_SEARCH_LENGTH} characters to search messages
+      </p>
+    );
+  }
+
+  if (searching) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (hits.length === 0) {
+    return <p className="py-4 text-center text-sm text-muted-foreground">No messages found</p>;
+  }
+
+  return (
+    <div className="divide-y divide-border">
+      {hits.map((hit) => (
+        <button
+          key={hit.id}
+          type="button"
+          onClick={() => onSelect(hit)}
+          className="block w-full px-3 py-2 text-left transition-colors hover:bg-accent"
+        >
+          <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+            <span className="truncate font-medium">{describeHit(hit)}</span>
+            <span className="shrink-0">{new Date(hit.createdAt).toLocaleDateString()}</span>
+          </div>
+          <p className="text-sm break-words">
+            {getSnippet(hit.text, query).map((part, index) =>
+              part.match ? (
+                <mark key={index} className="rounded bg-primary/20 text-foreground">
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </p>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default MessageSearchResults;
@@ -0,0 +1,32 @@
+import { AlertCircle, Check, CheckCheck, Clock } from 'lucide-react';
+import { MessageStatus } from '@/lib/readReceipts';
+
+const labels: Record<MessageStatus, string> = {
+  pending: 'Sending',
+  failed: 'Not sent',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+};
+
+const icons = {
+  pending: Clock,
+  failed: AlertCircle,
+  sent: Check,
+  delivered: CheckCheck,
+  read: CheckCheck,
+};
+
+/** Sending / sent / delivered / read ticks shown on your own messages */
+const MessageStatusIcon = ({ status }: { status: MessageStatus }) => {
+  const Icon = icons[status];
+  const color = status === 'read' ? 'text-sky-300' : status === 'failed' ? 'text-destructive' : '';
+
+  return (
+    <span title={labels[status]} aria-label={labels[status]}>
+      <Icon className={`w-3.5 h-3.5 ${color}`} />
+    </span>
+  );
+};
+
+export default MessageStatusIcon;
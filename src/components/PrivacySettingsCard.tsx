@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { EyeOff, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { usePresence } from '@/hooks/usePresence';
+
+interface PrivacySettingsCardProps {
+  userId: string;
+}
+
+const PrivacySettingsCard = ({ userId }: PrivacySettingsCardProps) => {
+  const { sharePresence, setSharePresence } = usePresence();
+  const [readReceiptsEnabled, setReadReceiptsEnabled] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('read_receipts_enabled')
+      .eq('id', userId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching privacy settings:', error);
+        } else {
+          setReadReceiptsEnabled(data.read_receipts_enabled);
+        }
+        setLoading(false);
+      });
+  }, [userId]);
+
+  const handleReadReceiptsChange = async (enabled: boolean) => {
+    setSaving(true);
+    setReadReceiptsEnabled(enabled);
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ read_receipts_enabled: enabled })
+        .eq('id', userId);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error updating privacy settings:', error);
+      toast.error('Failed to update privacy settings');
+      setReadReceiptsEnabled(!enabled);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLastSeenChange = async (enabled: boolean) => {
+    setSaving(true);
+    try {
+      await setSharePresence(enabled);
+    } catch (error) {
+      console.error('Error updating privacy settings:', error);
+      toast.error('Failed to update privacy settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-start gap-3">
+        <EyeOff className="w-5 h-5 mt-1 text-primary" />
+        <div>
+          <h2 className="text-lg font-semibold">Privacy</h2>
+          <p className="text-sm text-muted-foreground">Control what others can see about your activity.</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="read-receipts">Read receipts</Label>
+              <p className="text-sm text-muted-foreground">
+                If turned off, you won't send or see read receipts. Delivery is still shown.
+              </p>
+            </div>
+            <Switch
+              id="read-receipts"
+              checked={readReceiptsEnabled}
+              onCheckedChange={handleReadReceiptsChange}
+              disabled={saving}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="last-seen">Online status and last seen</Label>
+              <p className="text-sm text-muted-foreground">
+                If turned off, you won't share or see when people are online or were last seen.
+              </p>
+            </div>
+            <Switch
+              id="last-seen"
+              checked={!!sharePresence}
+              onCheckedChange={handleLastSeenChange}
+              disabled={saving || sharePresence === null}
+            />
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default PrivacySettingsCard;
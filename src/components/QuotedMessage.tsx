@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { FileText, Film } from 'lucide-react';
+import { AttachmentInfo } from '@/lib/crypto';
+import { getAttachmentKind, loadAttachment } from '@/lib/attachments';
+
+export interface Quote {
+  senderName: string;
+  text: string;
+  attachment?: AttachmentInfo;
+  /** Public URL of files sent before attachments were encrypted */
+  legacyUrl?: string | null;
+  /** The original was deleted or is otherwise gone */
+  deleted?: boolean;
+}
+
+interface QuotedMessageProps {
+  quote: Quote | null;
+  onClick?: () => void;
+  className?: string;
+}
+
+/** Small thumbnail of a quoted image; other media just shows an icon */
+const QuoteThumbnail = ({ attachment, legacyUrl }: { attachment?: AttachmentInfo; legacyUrl?: string | null }) => {
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const kind = getAttachmentKind(attachment, legacyUrl);
+
+  useEffect(() => {
+    if (kind !== 'image') return;
+
+    let url: string | null = null;
+    let cancelled = false;
+
+    loadAttachment(attachment, legacyUrl)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+      })
+      .catch((error) => {
+        console.error('Failed to load quoted attachment:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, legacyUrl, kind]);
+
+  if (kind === 'image' && objectUrl) {
+    return <img src={objectUrl} alt="" className="w-10 h-10 rounded object-cover shrink-0" />;
+  }
+
+  const Icon = kind === 'video' ? Film : FileText;
+  return (
+    <div className="w-10 h-10 rounded bg-black/10 flex items-center justify-center shrink-0">
+      <Icon className="w-5 h-5 opacity-70" />
+    </div>
+  );
+};
+
+/** Compact block quoting the message a reply refers to */
+const QuotedMessage = ({ quote, onClick, className = '' }: QuotedMessageProps) => {
+  const hasMedia = !!quote && !quote.deleted && (!!quote.attachment || !!quote.legacyUrl);
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={!onClick || !quote || quote.deleted}
+      className={`flex w-full items-center gap-2 rounded-lg border-l-4 border-primary/60 bg-black/10 px-2 py-1 text-left text-sm ${className}`}
+    >
+      <div className="flex-1 min-w-0">
+        {!quote ? (
+          <p className="italic opacity-70">Loading...</p>
+        ) : quote.deleted ? (
+          <p className="italic opacity-70">Message deleted</p>
+        ) : (
+          <>
+            <p className="font-semibold truncate">{quote.senderName}</p>
+            <p className="line-clamp-2 break-words opacity-80">{quote.text}</p>
+          </>
+        )}
+      </div>
+      {hasMedia && <QuoteThumbnail attachment={quote.attachment} legacyUrl={quote.legacyUrl} />}
+    </button>
+  );
+};
+
+export default QuotedMessage;
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { REPORT_REASONS, ReportReason, submitReport } from '@/lib/reports';
+
+export interface ReportTarget {
+  user: { id: string; full_name: string };
+  /** A message of theirs, as decrypted on this device */
+  message?: { id: string; text: string; attachmentPath: string | null };
+}
+
+interface ReportDialogProps {
+  /** Who to report; the dialog is open while set */
+  target: ReportTarget | null;
+  onClose: () => void;
+  userId: string;
+}
+
+const ReportDialog = ({ target, onClose, userId }: ReportDialogProps) => {
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [includeText, setIncludeText] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+
+    setReason('spam');
+    setDetails('');
+    setIncludeText(false);
+  }, [target]);
+
+  const handleSubmit = async () => {
+    if (!target) return;
+
+    setSubmitting(true);
+    try {
+      await submitReport(userId, {
+        reportedUserId: target.user.id,
+        reason,
+        details,
+        messageId: target.message?.id,
+        attachmentPath: target.message?.attachmentPath,
+        messageText: includeText ? target.message?.text : undefined,
+      });
+      toast.success('Thanks, your report was sent to our moderators');
+      onClose();
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      toast.error('Failed to send report');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {target?.message ? 'Report message' : `Report ${target?.user.full_name}`}
+          </DialogTitle>
+          <DialogDescription>
+            Reports are reviewed by moderators. {target?.user.full_name} won't know you reported them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {REPORT_REASONS.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`report-${option.value}`} />
+                <Label htmlFor={`report-${option.value}`} className="font-normal">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (optional)</Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={2000}
+              rows={3}
+            />
+          </div>
+
+          {target?.message && (
+            <div className="space-y-2 rounded-lg bg-secondary p-3">
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="report-include-text"
+                  checked={includeText}
+                  onCheckedChange={(checked) => setIncludeText(checked === true)}
+                  className="mt-0.5"
+                />
+                <Label htmlFor="report-include-text" className="font-normal leading-snug">
+                  Share this message with moderators. Messages are end-to-end encrypted, so they can't read it
+                  otherwise.
+                </Label>
+              </div>
+              <p className="text-sm text-muted-foreground break-words line-clamp-4">{target.message.text}</p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Send report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Loader2, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SafetyKeys, computeSafetyNumber, formatSafetyNumber } from '@/lib/safetyNumber';
+import { VerificationStatus, clearContactVerification, markContactVerified } from '@/lib/verification';
+
+interface SafetyNumberDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  keys: SafetyKeys;
+  contact: {
+    id: string;
+    full_name: string;
+    public_key: string;
+    signing_key: string;
+  };
+  status: VerificationStatus;
+  onStatusChange: (verifiedKey: string | null) => void;
+}
+
+const SafetyNumberDialog = ({
+  open,
+  onOpenChange,
+  userId,
+  keys,
+  contact,
+  status,
+  onStatusChange,
+}: SafetyNumberDialogProps) => {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setSafetyNumber(null);
+    computeSafetyNumber(userId, { identityKey: keys.identityKey, signingKey: keys.signingKey }, contact.id, {
+      identityKey: contact.public_key,
+      signingKey: contact.signing_key,
+    }).then((value) => {
+      if (!cancelled) setSafetyNumber(value);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId, keys.identityKey, keys.signingKey, contact.id, contact.public_key, contact.signing_key]);
+
+  const handleToggleVerified = async () => {
+    setSaving(true);
+    try {
+      if (status === 'verified') {
+        await clearContactVerification(userId, contact.id);
+        onStatusChange(null);
+        toast.success(`${contact.full_name} is no longer marked as verified`);
+      } else {
+        await markContactVerified(userId, contact.id, contact.public_key);
+        onStatusChange(contact.public_key);
+        toast.success(`${contact.full_name} marked as verified`);
+      }
+    } catch (error) {
+      console.error('Error updating verification:', error);
+      toast.error('Failed to update verification');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Verify safety number</DialogTitle>
+          <DialogDescription>
+            Compare these numbers with {contact.full_name} in person or over a trusted channel, or
+            scan each other's code. If they match, your messages can only be read by the two of you.
+          </DialogDescription>
+        </DialogHeader>
+
+        {safetyNumber ? (
+          <div className="flex flex-col items-center gap-6">
+            <div className="bg-white p-4 rounded-lg">
+              <QRCodeSVG value={safetyNumber} size={176} />
+            </div>
+            <div className="grid grid-cols-4 gap-x-6 gap-y-2 font-mono text-lg tracking-wider">
+              {formatSafetyNumber(safetyNumber).map((group, index) => (
+                <span key={index}>{group}</span>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {status === 'changed' && (
+          <div className="flex items-start gap-2 rounded-lg bg-destructive/10 p-3 text-sm text-destructive">
+            <ShieldAlert className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>
+              {contact.full_name}'s safety number has changed since you verified it. Compare the new
+              number before marking them as verified again.
+            </span>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleToggleVerified}
+            disabled={saving || !safetyNumber}
+            variant={status === 'verified' ? 'outline' : 'default'}
+            className={status === 'verified' ? '' : 'bg-gradient-primary'}
+          >
+            {saving ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ShieldCheck className="w-4 h-4 mr-2" />
+            )}
+            {status === 'verified' ? 'Clear verification' : 'Mark as verified'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SafetyNumberDialog;
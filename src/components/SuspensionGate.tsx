@@ -0,0 +1,61 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { Ban, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Suspension, fetchSuspension } from '@/lib/suspension';
+
+/**
+ * Shows suspended users why they can't use the app instead of pages whose
+ * every action the database would refuse
+ */
+const SuspensionGate = ({ children }: { children: ReactNode }) => {
+  const { user, signOut } = useAuth();
+  const [checking, setChecking] = useState(true);
+  const [suspension, setSuspension] = useState<Suspension | null>(null);
+
+  useEffect(() => {
+    fetchSuspension(user!.id)
+      .then(setSuspension)
+      .catch((error) => {
+        // The database still refuses writes, so the app can load regardless
+        console.error('Failed to check account status:', error);
+      })
+      .finally(() => setChecking(false));
+  }, [user]);
+
+  if (checking) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (suspension) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 bg-background">
+        <Card className="max-w-md w-full p-8 space-y-4 text-center">
+          <Ban className="w-12 h-12 mx-auto text-destructive" />
+          <h1 className="text-2xl font-bold">Your account is suspended</h1>
+          <p className="text-muted-foreground">
+            It was suspended {formatDistanceToNow(new Date(suspension.suspended_at), { addSuffix: true })}
+            {suspension.reason ? ` for ${suspension.reason.toLowerCase()}` : ''}. While it is suspended you can't send
+            messages, follow people or change your profile.
+          </p>
+          <p className="text-sm text-muted-foreground">
+            If you think this is a mistake, contact support from the email address you signed up with.
+          </p>
+          <Button variant="outline" onClick={signOut}>
+            Sign out
+          </Button>
+        </Card>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default SuspensionGate;
@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  OutboxEntry,
+  encryptOutboxEntry,
+  loadOutbox,
+  removeOutboxEntry,
+  saveOutboxEntry,
+  sendOutboxEntry,
+  uploadOutboxAttachment,
+} from '@/lib/outbox';
+
+interface OutboxContextType {
+  /** Unsent messages of every chat, oldest first */
+  entries: OutboxEntry[];
+  queueMessage: (message: Pick<OutboxEntry, 'chatId' | 'text' | 'replyToId' | 'file'>) => Promise<void>;
+  retryMessage: (id: string) => void;
+  discardMessage: (id: string) => void;
+}
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const OutboxProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+
+  const updateEntries = (update: (current: OutboxEntry[]) => OutboxEntry[]) => {
+    entriesRef.current = update(entriesRef.current);
+    setEntries(entriesRef.current);
+  };
+
+  const updateEntry = (id: string, changes: Partial<OutboxEntry>) => {
+    updateEntries((current) => current.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const discardSent = (id: string) => {
+    updateEntries((current) => current.filter((entry) => entry.id !== id));
+  };
+
+  // Sends pending messages one at a time, in the order they were written
+  const flush = async () => {
+    if (flushingRef.current) return;
+
+    flushingRef.current = true;
+    try {
+      let entry: OutboxEntry | undefined;
+      while (navigator.onLine && (entry = entriesRef.current.find((e) => e.status === 'pending'))) {
+        try {
+          entry = await uploadOutboxAttachment(entry);
+          updateEntry(entry.id, { attachment: entry.attachment });
+          const encrypted = await encryptOutboxEntry(entry);
+          entry = encrypted;
+          updateEntry(entry.id, { encrypted: entry.encrypted });
+          await sendOutboxEntry(encrypted);
+          await removeOutboxEntry(entry);
+          // From here on the chat shows the row itself
+          discardSent(entry.id);
+        } catch (error) {
+          // Losing the connection halfway leaves the message queued
+          if (!navigator.onLine) break;
+
+          console.error('Error sending message:', error);
+          updateEntry(entry.id, { status: 'failed' });
+          await saveOutboxEntry({ ...entry, status: 'failed' }).catch(() => undefined);
+        }
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  useEffect(() => {
+    updateEntries(() => []);
+    if (!user) return;
+
+    loadOutbox(user.id)
+      .then((stored) => {
+        // Whatever was still queued when the page closed is sent now
+        updateEntries(() => stored);
+        flush();
+      })
+      .catch((error) => {
+        console.error('Error loading outbox:', error);
+      });
+
+    window.addEventListener('online', flush);
+    return () => {
+      window.removeEventListener('online', flush);
+    };
+  }, [user]);
+
+  const queueMessage: OutboxContextType['queueMessage'] = async (message) => {
+    const entry: OutboxEntry = {
+      ...message,
+      id: crypto.randomUUID(),
+      userId: user!.id,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+    };
+
+    await saveOutboxEntry(entry);
+    updateEntries((current) => [...current, entry]);
+    flush();
+  };
+
+  const retryMessage = (id: string) => {
+    const entry = entriesRef.current.find((e) => e.id === id);
+    if (!entry) return;
+
+    updateEntry(id, { status: 'pending' });
+    saveOutboxEntry({ ...entry, status: 'pending' }).catch((error) => {
+      console.error('Error updating outbox:', error);
+    });
+    flush();
+  };
+
+  const discardMessage = (id: string) => {
+    const entry = entriesRef.current.find((e) => e.id === id);
+    if (!entry) return;
+
+    updateEntries((current) => current.filter((e) => e.id !== id));
+    removeOutboxEntry(entry).catch((error) => {
+      console.error('Error updating outbox:', error);
+    });
+  };
+
+  return (
+    <OutboxContext.Provider value={{ entries, queueMessage, retryMessage, discardMessage }}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (context === undefined) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
@@ -0,0 +1,113 @@
+import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+interface PresenceContextType {
+  /** Users currently connected and sharing their online status */
+  onlineUserIds: Set<string>;
+  /** Whether this user shares their online status and last seen; null until loaded */
+  sharePresence: boolean | null;
+  setSharePresence: (enabled: boolean) => Promise<void>;
+}
+
+const PresenceContext = createContext<PresenceContextType | undefined>(undefined);
+
+// How often the last seen heartbeat is written while the app is open
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+export const PresenceProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  const [sharePresence, setSharePresenceState] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    setSharePresenceState(null);
+    if (!user) return;
+
+    supabase
+      .from('profiles')
+      .select('show_last_seen')
+      .eq('id', user.id)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading presence settings:', error);
+          return;
+        }
+        setSharePresenceState(data.show_last_seen);
+      });
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setOnlineUserIds(new Set());
+      return;
+    }
+    // Nothing is shared before the setting is known
+    if (sharePresence === null) return;
+
+    // Presence is keyed by user, so several tabs count as one
+    const channel = supabase.channel('presence:online', {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(new Set(Object.keys(channel.presenceState())));
+      })
+      .subscribe((status) => {
+        // Users hiding their status still see the channel but never join it
+        if (status === 'SUBSCRIBED' && sharePresence) {
+          channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    const recordLastSeen = () => {
+      // Users hiding their status don't record when they were last seen either
+      if (!sharePresence) return;
+
+      supabase
+        .from('user_presence')
+        .upsert({ user_id: user.id, last_seen_at: new Date().toISOString() })
+        .then(({ error }) => {
+          if (error) console.error('Error recording last seen:', error);
+        });
+    };
+
+    const recordWhileVisible = () => {
+      if (document.visibilityState === 'visible') recordLastSeen();
+    };
+
+    recordLastSeen();
+    const interval = setInterval(recordWhileVisible, LAST_SEEN_INTERVAL_MS);
+    document.addEventListener('visibilitychange', recordLastSeen);
+    window.addEventListener('pagehide', recordLastSeen);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', recordLastSeen);
+      window.removeEventListener('pagehide', recordLastSeen);
+      supabase.removeChannel(channel);
+    };
+  }, [user, sharePresence]);
+
+  const setSharePresence = async (enabled: boolean) => {
+    const { error } = await supabase.from('profiles').update({ show_last_seen: enabled }).eq('id', user!.id);
+    if (error) throw error;
+    setSharePresenceState(enabled);
+  };
+
+  return (
+    <PresenceContext.Provider value={{ onlineUserIds, sharePresence, setSharePresence }}>
+      {children}
+    </PresenceContext.Provider>
+  );
+};
+
+export const usePresence = () => {
+  const context = useContext(PresenceContext);
+  if (context === undefined) {
+    throw new Error('usePresence must be used within a PresenceProvider');
+  }
+  return context;
+};
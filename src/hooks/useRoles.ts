@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { AppRole, fetchRoles } from '@/lib/roles';
+
+/** Roles of the signed-in user; null while they are loaded */
+export const useRoles = () => {
+  const { user } = useAuth();
+  const [roles, setRoles] = useState<AppRole[] | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setRoles([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchRoles(user.id)
+      .then((result) => {
+        if (!cancelled) setRoles(result);
+      })
+      .catch((error) => {
+        console.error('Error loading roles:', error);
+        if (!cancelled) setRoles([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return roles;
+};
@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef, createContext, useContext, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { markMessagesDelivered } from '@/lib/readReceipts';
+
+interface UnreadCountsContextType {
+  /** Unread messages per chat id */
+  counts: Record<string, number>;
+  total: number;
+}
+
+const UnreadCountsContext = createContext<UnreadCountsContextType | undefined>(undefined);
+
+export const UnreadCountsProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  // The counts as of the last update, or null until the first load, before
+  // which a change can't be told apart from growth
+  const countsRef = useRef<Record<string, number> | null>(null);
+
+  useEffect(() => {
+    countsRef.current = null;
+    if (!user) {
+      setCounts({});
+      return;
+    }
+
+    let active = true;
+    // Rows that changed before the first load finished
+    const early: Record<string, number> = {};
+
+    const update = (next: Record<string, number>) => {
+      countsRef.current = next;
+      setCounts(next);
+    };
+
+    supabase
+      .from('chat_reads')
+      .select('chat_id, unread_count')
+      .eq('user_id', user.id)
+      .then(({ data, error }) => {
+        if (!active) return;
+        if (error) {
+          console.error('Error loading unread counts:', error);
+          return;
+        }
+        update({ ...Object.fromEntries((data || []).map((row) => [row.chat_id, row.unread_count])), ...early });
+        // Those chats may have had messages arrive in the meantime
+        Object.keys(early).forEach((earlyChatId) => {
+          markMessagesDelivered(earlyChatId).catch((error) => {
+            console.error('Error marking messages delivered:', error);
+          });
+        });
+      });
+
+    // The server keeps the counts up to date, so one subscription to our own
+    // rows is all every page needs. Filtered subscriptions never receive
+    // deletes, so a chat that was left keeps its last count until reload.
+    const channel = supabase
+      .channel(`unread:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chat_reads',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const row = payload.new as { chat_id: string; unread_count: number };
+          const current = countsRef.current;
+          if (!current) {
+            early[row.chat_id] = row.unread_count;
+            return;
+          }
+
+          // A growing count means a new message just reached this device
+          if (row.unread_count > (current[row.chat_id] ?? 0)) {
+            markMessagesDelivered(row.chat_id).catch((error) => {
+              console.error('Error marking messages delivered:', error);
+            });
+          }
+          update({ ...current, [row.chat_id]: row.unread_count });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      active = false;
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <UnreadCountsContext.Provider value={{ counts, total }}>
+      {children}
+    </UnreadCountsContext.Provider>
+  );
+};
+
+export const useUnreadCounts = () => {
+  const context = useContext(UnreadCountsContext);
+  if (context === undefined) {
+    throw new Error('useUnreadCounts must be used within an UnreadCountsProvider');
+  }
+  return context;
+};
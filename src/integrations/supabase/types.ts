@@ -14,26 +14,199 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_suspensions: {
+        Row: {
+          suspended_at: string
+          suspended_by: string | null
+          suspension_reason: string
+          user_id: string
+        }
+        Insert: {
+          suspended_at?: string
+          suspended_by?: string | null
+          suspension_reason: string
+          user_id: string
+        }
+        Update: {
+          suspended_at?: string
+          suspended_by?: string | null
+          suspension_reason?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_suspensions_suspended_by_fkey"
+            columns: ["suspended_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_suspensions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_members: {
+        Row: {
+          chat_id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_members_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_reads: {
+        Row: {
+          chat_id: string
+          last_read_at: string | null
+          last_read_message_id: string | null
+          unread_count: number
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
+          unread_count?: number
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          last_read_at?: string | null
+          last_read_message_id?: string | null
+          unread_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_reads_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_reads_last_read_message_id_fkey"
+            columns: ["last_read_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chats: {
         Row: {
+          avatar_url: string | null
           created_at: string
+          created_by: string | null
+          disappearing_seconds: number | null
           id: string
-          user1_id: string
-          user2_id: string
+          name: string | null
+          type: string
+          user1_id: string | null
+          user2_id: string | null
         }
         Insert: {
+          avatar_url?: string | null
           created_at?: string
+          created_by?: string | null
+          disappearing_seconds?: number | null
           id?: string
-          user1_id: string
-          user2_id: string
+          name?: string | null
+          type?: string
+          user1_id?: string | null
+          user2_id?: string | null
         }
         Update: {
+          avatar_url?: string | null
           created_at?: string
+          created_by?: string | null
+          disappearing_seconds?: number | null
           id?: string
-          user1_id?: string
-          user2_id?: string
+          name?: string | null
+          type?: string
+          user1_id?: string | null
+          user2_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "chats_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chats_user1_id_fkey"
             columns: ["user1_id"]
@@ -50,6 +223,142 @@ export type Database = {
           },
         ]
       }
+      contact_verifications: {
+        Row: {
+          contact_id: string
+          user_id: string
+          verified_at: string
+          verified_key: string
+        }
+        Insert: {
+          contact_id: string
+          user_id: string
+          verified_at?: string
+          verified_key: string
+        }
+        Update: {
+          contact_id?: string
+          user_id?: string
+          verified_at?: string
+          verified_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_verifications_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "contact_verifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      device_link_requests: {
+        Row: {
+          approver_public_key: string | null
+          created_at: string
+          device_name: string
+          expires_at: string
+          id: string
+          key_confirmation: string | null
+          nonce: string | null
+          payload: string | null
+          public_key: string
+          user_id: string
+        }
+        Insert: {
+          approver_public_key?: string | null
+          created_at?: string
+          device_name: string
+          expires_at?: string
+          id?: string
+          key_confirmation?: string | null
+          nonce?: string | null
+          payload?: string | null
+          public_key: string
+          user_id: string
+        }
+        Update: {
+          approver_public_key?: string | null
+          created_at?: string
+          device_name?: string
+          expires_at?: string
+          id?: string
+          key_confirmation?: string | null
+          nonce?: string | null
+          payload?: string | null
+          public_key?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_link_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      devices: {
+        Row: {
+          created_at: string
+          id: string
+          identity_key: string
+          last_seen_at: string
+          name: string
+          revoked_at: string | null
+          signed_prekey: string
+          signed_prekey_id: number
+          signed_prekey_signature: string
+          signing_key: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          identity_key: string
+          last_seen_at?: string
+          name: string
+          revoked_at?: string | null
+          signed_prekey: string
+          signed_prekey_id: number
+          signed_prekey_signature: string
+          signing_key: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          identity_key?: string
+          last_seen_at?: string
+          name?: string
+          revoked_at?: string | null
+          signed_prekey?: string
+          signed_prekey_id?: number
+          signed_prekey_signature?: string
+          signing_key?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "devices_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       follows: {
         Row: {
           created_at: string
@@ -92,6 +401,77 @@ export type Database = {
           },
         ]
       }
+      key_backups: {
+        Row: {
+          ciphertext: string
+          iterations: number
+          kdf: string
+          nonce: string
+          salt: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ciphertext: string
+          iterations: number
+          kdf?: string
+          nonce: string
+          salt: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ciphertext?: string
+          iterations?: number
+          kdf?: string
+          nonce?: string
+          salt?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "key_backups_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_hidden: {
+        Row: {
+          hidden_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          hidden_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          hidden_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_hidden_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_hidden_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_reactions: {
         Row: {
           created_at: string
@@ -131,30 +511,104 @@ export type Database = {
           },
         ]
       }
+      message_revisions: {
+        Row: {
+          ciphertext: string
+          id: string
+          message_id: string
+          nonce: string
+          replaced_at: string
+          written_at: string
+        }
+        Insert: {
+          ciphertext: string
+          id?: string
+          message_id: string
+          nonce: string
+          replaced_at?: string
+          written_at: string
+        }
+        Update: {
+          ciphertext?: string
+          id?: string
+          message_id?: string
+          nonce?: string
+          replaced_at?: string
+          written_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           chat_id: string
+          ciphertext: string | null
           content: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          envelopes: Json | null
+          expires_at: string | null
           id: string
+          key_version: number | null
+          kind: string
           media_url: string | null
+          nonce: string | null
+          ratchet_header: Json | null
+          reply_to_id: string | null
+          sealed_key: string | null
+          sender_device_id: string | null
           sender_id: string
+          system_event: Json | null
         }
         Insert: {
           chat_id: string
-          content: string
+          ciphertext?: string | null
+          content?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          envelopes?: Json | null
+          expires_at?: string | null
           id?: string
+          key_version?: number | null
+          kind?: string
           media_url?: string | null
+          nonce?: string | null
+          ratchet_header?: Json | null
+          reply_to_id?: string | null
+          sealed_key?: string | null
+          sender_device_id?: string | null
           sender_id: string
+          system_event?: Json | null
         }
         Update: {
           chat_id?: string
+          ciphertext?: string | null
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          envelopes?: Json | null
+          expires_at?: string | null
           id?: string
+          key_version?: number | null
+          kind?: string
           media_url?: string | null
+          nonce?: string | null
+          ratchet_header?: Json | null
+          reply_to_id?: string | null
+          sealed_key?: string | null
+          sender_device_id?: string | null
           sender_id?: string
+          system_event?: Json | null
         }
         Relationships: [
           {
@@ -164,6 +618,13 @@ export type Database = {
             referencedRelation: "chats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_sender_device_id_fkey"
+            columns: ["sender_device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -173,6 +634,48 @@ export type Database = {
           },
         ]
       }
+      one_time_prekeys: {
+        Row: {
+          created_at: string
+          device_id: string
+          id: string
+          key_id: number
+          public_key: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          id?: string
+          key_id: number
+          public_key: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          id?: string
+          key_id?: number
+          public_key?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "one_time_prekeys_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "one_time_prekeys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -180,6 +683,10 @@ export type Database = {
           created_at: string
           full_name: string
           id: string
+          public_key: string | null
+          read_receipts_enabled: boolean
+          show_last_seen: boolean
+          signing_key: string | null
           username: string
         }
         Insert: {
@@ -188,6 +695,10 @@ export type Database = {
           created_at?: string
           full_name: string
           id: string
+          public_key?: string | null
+          read_receipts_enabled?: boolean
+          show_last_seen?: boolean
+          signing_key?: string | null
           username: string
         }
         Update: {
@@ -196,19 +707,474 @@ export type Database = {
           created_at?: string
           full_name?: string
           id?: string
+          public_key?: string | null
+          read_receipts_enabled?: boolean
+          show_last_seen?: boolean
+          signing_key?: string | null
           username?: string
         }
         Relationships: []
       }
+      read_receipts: {
+        Row: {
+          chat_id: string
+          delivered_at: string | null
+          read_at: string | null
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          delivered_at?: string | null
+          read_at?: string | null
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          delivered_at?: string | null
+          read_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "read_receipts_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "read_receipts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          attachment_path: string | null
+          created_at: string
+          details: string | null
+          id: string
+          message_id: string | null
+          message_text: string | null
+          reason: string
+          reported_user_id: string
+          reporter_id: string | null
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          attachment_path?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string | null
+          message_text?: string | null
+          reason: string
+          reported_user_id: string
+          reporter_id?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          attachment_path?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string | null
+          message_text?: string | null
+          reason?: string
+          reported_user_id?: string
+          reporter_id?: string | null
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      search_rate_limits: {
+        Row: {
+          request_count: number
+          user_id: string
+          window_start: string
+        }
+        Insert: {
+          request_count?: number
+          user_id: string
+          window_start?: string
+        }
+        Update: {
+          request_count?: number
+          user_id?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_rate_limits_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_presence: {
+        Row: {
+          last_seen_at: string
+          user_id: string
+        }
+        Insert: {
+          last_seen_at?: string
+          user_id: string
+        }
+        Update: {
+          last_seen_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_presence_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_group_members: {
+        Args: {
+          member_ids: string[]
+          target_chat_id: string
+        }
+        Returns: undefined
+      }
+      admin_list_users: {
+        Args: {
+          result_limit?: number
+          result_offset?: number
+          search_query?: string
+        }
+        Returns: {
+          avatar_url: string
+          created_at: string
+          full_name: string
+          id: string
+          roles: Database["public"]["Enums"]["app_role"][]
+          suspended_at: string
+          suspension_reason: string
+          total_count: number
+          username: string
+        }[]
+      }
+      chat_role: {
+        Args: {
+          target_chat_id: string
+        }
+        Returns: string
+      }
+      claim_one_time_prekey: {
+        Args: {
+          target_device_id: string
+        }
+        Returns: {
+          key_id: number
+          public_key: string
+        }[]
+      }
+      create_group_chat: {
+        Args: {
+          group_name: string
+          member_ids: string[]
+        }
+        Returns: string
+      }
+      delete_expired_messages: {
+        Args: never
+        Returns: undefined
+      }
+      delete_message_for_everyone: {
+        Args: {
+          target_message_id: string
+        }
+        Returns: undefined
+      }
+      expire_follow_requests: {
+        Args: never
+        Returns: undefined
+      }
+      get_inbox: {
+        Args: never
+        Returns: {
+          chat_avatar_url: string
+          chat_created_at: string
+          chat_id: string
+          chat_name: string
+          chat_type: string
+          last_activity_at: string
+          last_message: Json
+          other_avatar_url: string
+          other_full_name: string
+          other_public_key: string
+          other_user_id: string
+          other_username: string
+          unread_count: number
+        }[]
+      }
+      get_last_seen: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: string
+      }
+      get_read_receipts: {
+        Args: {
+          target_chat_id: string
+        }
+        Returns: {
+          delivered_at: string
+          read_at: string
+          user_id: string
+        }[]
+      }
+      has_block_with: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: boolean
+      }
+      has_follow_with: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: boolean
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_chat_blocked: {
+        Args: {
+          target_chat_id: string
+        }
+        Returns: boolean
+      }
+      is_chat_connected: {
+        Args: {
+          target_chat_id: string
+        }
+        Returns: boolean
+      }
+      is_chat_member: {
+        Args: {
+          target_chat_id: string
+        }
+        Returns: boolean
+      }
+      is_connected_with: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: boolean
+      }
+      is_moderator: {
+        Args: never
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: never
+        Returns: boolean
+      }
+      leave_group: {
+        Args: {
+          target_chat_id: string
+        }
+        Returns: undefined
+      }
+      mark_chat_read: {
+        Args: {
+          read_message_id: string
+          target_chat_id: string
+        }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: {
+          target_chat_id?: string
+        }
+        Returns: undefined
+      }
+      message_delete_window: {
+        Args: never
+        Returns: unknown
+      }
+      message_edit_window: {
+        Args: never
+        Returns: unknown
+      }
+      remove_group_member: {
+        Args: {
+          target_chat_id: string
+          target_user_id: string
+        }
+        Returns: undefined
+      }
+      search_messages: {
+        Args: {
+          max_results?: number
+          search_query: string
+          target_chat_id?: string
+        }
+        Returns: {
+          chat_id: string
+          content: string
+          created_at: string
+          id: string
+          sender_id: string
+        }[]
+      }
+      search_profiles: {
+        Args: {
+          result_limit?: number
+          result_offset?: number
+          search_query: string
+        }
+        Returns: {
+          avatar_url: string
+          bio: string
+          full_name: string
+          id: string
+          username: string
+        }[]
+      }
+      set_chat_disappearing_timer: {
+        Args: {
+          seconds?: number
+          target_chat_id: string
+        }
+        Returns: undefined
+      }
+      set_group_member_role: {
+        Args: {
+          new_role: string
+          target_chat_id: string
+          target_user_id: string
+        }
+        Returns: undefined
+      }
+      set_user_suspension: {
+        Args: {
+          reason?: string
+          target_user_id: string
+        }
+        Returns: undefined
+      }
+      shares_chat_with: {
+        Args: {
+          target_user_id: string
+        }
+        Returns: boolean
+      }
+      shares_read_receipts: {
+        Args: never
+        Returns: boolean
+      }
+      suggest_profiles: {
+        Args: {
+          max_results?: number
+        }
+        Returns: {
+          avatar_url: string
+          bio: string
+          full_name: string
+          id: string
+          mutual_count: number
+          username: string
+        }[]
+      }
+      update_group_details: {
+        Args: {
+          new_avatar_url?: string
+          new_name: string
+          target_chat_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "moderator"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -335,6 +1301,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "moderator"],
+    },
   },
 } as const
@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AppRole } from '@/lib/roles';
+
+// Account management for admins. public.admin_list_users() refuses anyone
+// without the admin role.
+
+export const ADMIN_PAGE_SIZE = 20;
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  created_at: string;
+  suspended_at: string | null;
+  suspension_reason: string | null;
+  roles: AppRole[];
+}
+
+/** One page of accounts matching the search, newest first */
+export const fetchAdminUsers = async (query: string, page: number) => {
+  const { data, error } = await supabase.rpc('admin_list_users', {
+    search_query: query.trim() || undefined,
+    result_limit: ADMIN_PAGE_SIZE,
+    result_offset: page * ADMIN_PAGE_SIZE,
+  });
+
+  if (error) throw error;
+  const rows = data || [];
+  return {
+    users: rows.map(({ total_count: _total, ...user }): AdminUser => user),
+    total: rows[0]?.total_count ?? 0,
+  };
+};
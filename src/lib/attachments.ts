@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AttachmentInfo, fromBase64, randomBytes, toBase64 } from '@/lib/crypto';
+
+// Files are encrypted with a random per-file key before upload. The key, name,
+// type and size only travel inside the encrypted message payload, so the
+// stored object is an opaque blob under a random name.
+
+const BUCKET = 'chat-files';
+
+export const uploadEncryptedAttachment = async (chatId: string, file: File): Promise<AttachmentInfo> => {
+  const rawKey = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, await file.arrayBuffer());
+
+  const path = `${chatId}/${crypto.randomUUID()}`;
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, new Blob([ciphertext]), { contentType: 'application/octet-stream' });
+
+  if (error) throw error;
+
+  return {
+    path,
+    key: toBase64(rawKey),
+    iv: toBase64(iv),
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: file.size,
+  };
+};
+
+export const downloadEncryptedAttachment = async (attachment: AttachmentInfo) => {
+  const { data, error } = await supabase.storage.from(BUCKET).download(attachment.path);
+  if (error) throw error;
+
+  const key = await crypto.subtle.importKey('raw', fromBase64(attachment.key), 'AES-GCM', false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(attachment.iv) },
+    key,
+    await data.arrayBuffer()
+  );
+  return new Blob([plaintext], { type: attachment.type });
+};
+
+/**
+ * Files sent before encryption were linked by public URL. The bucket is
+ * private now, so fetch them through the authenticated storage API instead.
+ */
+export const downloadLegacyAttachment = async (mediaUrl: string) => {
+  const path = decodeURIComponent(mediaUrl.split(`/${BUCKET}/`).pop() ?? '');
+  const { data, error } = await supabase.storage.from(BUCKET).download(path);
+  if (error) throw error;
+  return data;
+};
+
+export type AttachmentKind = 'image' | 'video' | 'file';
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp'];
+const VIDEO_EXTENSIONS = ['mp4', 'mov', 'avi', 'mkv', 'webm'];
+
+export const getAttachmentKind = (attachment?: AttachmentInfo, legacyUrl?: string | null): AttachmentKind => {
+  if (attachment) {
+    if (attachment.type.startsWith('image/')) return 'image';
+    if (attachment.type.startsWith('video/')) return 'video';
+    return 'file';
+  }
+
+  const ext = legacyUrl?.split('.').pop()?.toLowerCase() || '';
+  if (IMAGE_EXTENSIONS.includes(ext)) return 'image';
+  if (VIDEO_EXTENSIONS.includes(ext)) return 'video';
+  return 'file';
+};
+
+/** Fetches an attachment, decrypting it unless it predates encryption */
+export const loadAttachment = (attachment?: AttachmentInfo, legacyUrl?: string | null) =>
+  attachment ? downloadEncryptedAttachment(attachment) : downloadLegacyAttachment(legacyUrl!);
@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Blocking ends any follow between two users and keeps either from sending a
+// new request. A direct chat between them stays readable but no longer
+// accepts messages, reactions or attachments from either side. All of this
+// is enforced by the database; the app only reflects it.
+
+export interface BlockedAccount {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  blocked_at: string;
+}
+
+/** Everyone the user has blocked, most recent first */
+export const fetchBlockedAccounts = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('blocks')
+    .select(`
+      created_at,
+      profile:profiles!blocks_blocked_id_fkey (id, username, full_name, avatar_url)
+    `)
+    .eq('blocker_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || [])
+    .filter((block) => block.profile)
+    .map((block): BlockedAccount => ({ ...block.profile!, blocked_at: block.created_at }));
+};
+
+/** Whether the user has blocked the other user */
+export const hasBlocked = async (userId: string, otherUserId: string) => {
+  const { data, error } = await supabase
+    .from('blocks')
+    .select('blocked_id')
+    .eq('blocker_id', userId)
+    .eq('blocked_id', otherUserId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+};
+
+/** Whether either user has blocked the other; who blocked whom isn't revealed */
+export const hasBlockWith = async (otherUserId: string) => {
+  const { data, error } = await supabase.rpc('has_block_with', { target_user_id: otherUserId });
+
+  if (error) throw error;
+  return !!data;
+};
+
+export const blockUser = async (userId: string, otherUserId: string) => {
+  const { error } = await supabase.from('blocks').insert({ blocker_id: userId, blocked_id: otherUserId });
+  // Already blocked
+  if (error && error.code !== '23505') throw error;
+};
+
+export const unblockUser = async (userId: string, otherUserId: string) => {
+  const { error } = await supabase
+    .from('blocks')
+    .delete()
+    .eq('blocker_id', userId)
+    .eq('blocked_id', otherUserId);
+
+  if (error) throw error;
+};
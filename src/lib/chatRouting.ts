@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+import { isConnectedWith } from '@/lib/follows';
+
+// Every chat lives at /c/:chatId, and ?m=<message id> opens it scrolled to
+// that message. Direct chats can still be reached by the other user's id,
+// which finds the chat (or starts it) first.
+
+export const MESSAGE_LINK_PARAM = 'm';
+
+export const chatPath = (chatId: string, messageId?: string) =>
+  messageId ? `/c/${chatId}?${MESSAGE_LINK_PARAM}=${messageId}` : `/c/${chatId}`;
+
+export class NotConnectedError extends Error {
+  constructor() {
+    super('You need to be connected to chat with this user');
+    this.name = 'NotConnectedError';
+  }
+}
+
+/**
+ * The id of the direct chat between two users, creating it if needed. Only
+ * connected users can start a chat.
+ */
+export const findOrCreateDirectChat = async (userId: string, otherUserId: string) => {
+  const [user1Id, user2Id] = [userId, otherUserId].sort();
+  const { data: existingChat, error } = await supabase
+    .from('chats')
+    .select('id')
+    .eq('user1_id', user1Id)
+    .eq('user2_id', user2Id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (existingChat) return existingChat.id;
+
+  if (!(await isConnectedWith(otherUserId))) throw new NotConnectedError();
+
+  const { data: newChat, error: createError } = await supabase
+    .from('chats')
+    .insert({ user1_id: user1Id, user2_id: user2Id })
+    .select('id')
+    .single();
+
+  if (createError) throw createError;
+  return newChat.id;
+};
@@ -0,0 +1,257 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Messages written before encryption shipped have key_version NULL and keep
+// their text in `content`. Version 1 is a static ECDH key per chat.
+export const STATIC_KEY_VERSION = 1;
+
+const IDENTITY_STORAGE_PREFIX = 'secureconnect:identity:';
+const CHAT_KEY_INFO = 'SecureConnect chat key v1';
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+const ECDSA_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const ECDSA_SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface AttachmentInfo {
+  /** Object path in the chat-files bucket */
+  path: string;
+  /** Base64 AES-GCM key the file was encrypted with */
+  key: string;
+  iv: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export interface MessagePayload {
+  text: string;
+  attachment?: AttachmentInfo;
+}
+
+export interface EncryptedPayload {
+  ciphertext: string;
+  nonce: string;
+}
+
+export interface StoredIdentity {
+  publicKey: JsonWebKey;
+  privateKey: JsonWebKey;
+  signingPublicKey?: JsonWebKey;
+  signingPrivateKey?: JsonWebKey;
+}
+
+export interface IdentityKeyPair {
+  publicKey: CryptoKey;
+  privateKey: CryptoKey;
+  /** Base64 of the raw public key, as published on the profile row */
+  publicKeyBase64: string;
+  /** ECDSA key that vouches for our signed prekeys */
+  signingPrivateKey: CryptoKey;
+  signingPublicKeyBase64: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64 = (data: ArrayBuffer | Uint8Array) => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const exportPublicKey = async (key: CryptoKey) =>
+  toBase64(await crypto.subtle.exportKey('raw', key));
+
+export const importPublicKey = (publicKeyBase64: string) =>
+  crypto.subtle.importKey('raw', fromBase64(publicKeyBase64), ECDH_PARAMS, true, []);
+
+export const signData = async (privateKey: CryptoKey, data: Uint8Array) =>
+  toBase64(await crypto.subtle.sign(ECDSA_SIGN_PARAMS, privateKey, data));
+
+export const verifySignature = async (signingPublicKeyBase64: string, signature: string, data: Uint8Array) => {
+  const publicKey = await crypto.subtle.importKey('raw', fromBase64(signingPublicKeyBase64), ECDSA_PARAMS, false, [
+    'verify',
+  ]);
+  return crypto.subtle.verify(ECDSA_SIGN_PARAMS, publicKey, fromBase64(signature), data);
+};
+
+const identityStorageKey = (userId: string) => `${IDENTITY_STORAGE_PREFIX}${userId}`;
+
+const importIdentity = async (stored: StoredIdentity): Promise<IdentityKeyPair> => {
+  const publicKey = await crypto.subtle.importKey('jwk', stored.publicKey, ECDH_PARAMS, true, []);
+  const signingPublicKey = await crypto.subtle.importKey('jwk', stored.signingPublicKey, ECDSA_PARAMS, true, [
+    'verify',
+  ]);
+  return {
+    publicKey,
+    privateKey: await crypto.subtle.importKey('jwk', stored.privateKey, ECDH_PARAMS, true, ['deriveBits']),
+    publicKeyBase64: await exportPublicKey(publicKey),
+    signingPrivateKey: await crypto.subtle.importKey('jwk', stored.signingPrivateKey, ECDSA_PARAMS, true, [
+      'sign',
+    ]),
+    signingPublicKeyBase64: await exportPublicKey(signingPublicKey),
+  };
+};
+
+const generateSigningKeys = async (stored: StoredIdentity): Promise<StoredIdentity> => {
+  const pair = await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+  return {
+    ...stored,
+    signingPublicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+    signingPrivateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+  };
+};
+
+const loadIdentityKeyPair = async (userId: string): Promise<IdentityKeyPair | null> => {
+  const raw = localStorage.getItem(identityStorageKey(userId));
+  if (!raw) return null;
+
+  try {
+    let stored = JSON.parse(raw) as StoredIdentity;
+    // Identities created before prekey bundles existed have no signing key yet
+    if (!stored.signingPrivateKey) {
+      stored = await generateSigningKeys(stored);
+      localStorage.setItem(identityStorageKey(userId), JSON.stringify(stored));
+    }
+    return await importIdentity(stored);
+  } catch (error) {
+    console.error('Stored identity key is unreadable:', error);
+    return null;
+  }
+};
+
+const generateIdentityKeyPair = async (userId: string): Promise<IdentityKeyPair> => {
+  const pair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  const stored = await generateSigningKeys({
+    publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey),
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+  });
+  localStorage.setItem(identityStorageKey(userId), JSON.stringify(stored));
+  return importIdentity(stored);
+};
+
+const identityRequests = new Map<string, Promise<IdentityKeyPair>>();
+
+export const hasLocalIdentity = (userId: string) => localStorage.getItem(identityStorageKey(userId)) !== null;
+
+/** Raw identity key material, for the encrypted key backup */
+export const readStoredIdentity = (userId: string) => {
+  const raw = localStorage.getItem(identityStorageKey(userId));
+  return raw ? (JSON.parse(raw) as StoredIdentity) : null;
+};
+
+/** Replaces this browser's identity, e.g. with one restored from a backup */
+export const writeStoredIdentity = (userId: string, stored: StoredIdentity) => {
+  localStorage.setItem(identityStorageKey(userId), JSON.stringify(stored));
+  identityRequests.delete(userId);
+};
+
+/** Forgets this browser's identity, e.g. after the device was revoked */
+export const clearStoredIdentity = (userId: string) => {
+  localStorage.removeItem(identityStorageKey(userId));
+  identityRequests.delete(userId);
+};
+
+/**
+ * Loads this browser's identity key for the user, generating one on first use,
+ * and makes sure the matching public and signing keys are published on their
+ * profile.
+ */
+export const ensureIdentityKey = (userId: string) => {
+  let request = identityRequests.get(userId);
+  if (!request) {
+    request = (async () => {
+      const identity = (await loadIdentityKeyPair(userId)) ?? (await generateIdentityKeyPair(userId));
+
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('public_key, signing_key')
+        .eq('id', userId)
+        .single();
+
+      if (error) throw error;
+
+      if (
+        profile.public_key !== identity.publicKeyBase64 ||
+        profile.signing_key !== identity.signingPublicKeyBase64
+      ) {
+        const { error: updateError } = await supabase
+          .from('profiles')
+          .update({ public_key: identity.publicKeyBase64, signing_key: identity.signingPublicKeyBase64 })
+          .eq('id', userId);
+
+        if (updateError) throw updateError;
+      }
+
+      return identity;
+    })();
+    request.catch(() => identityRequests.delete(userId));
+    identityRequests.set(userId, request);
+  }
+  return request;
+};
+
+const chatKeys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Derives the AES-GCM key shared by both participants of a chat from our
+ * private key and their published public key. The chat id salts the
+ * derivation so the same pair of users never reuses a key across chats.
+ */
+export const deriveChatKey = (privateKey: CryptoKey, theirPublicKeyBase64: string, chatId: string) => {
+  const cacheKey = `${chatId}:${theirPublicKeyBase64}`;
+  let key = chatKeys.get(cacheKey);
+  if (!key) {
+    key = (async () => {
+      const theirPublicKey = await importPublicKey(theirPublicKeyBase64);
+      const sharedSecret = await crypto.subtle.deriveBits(
+        { name: 'ECDH', public: theirPublicKey },
+        privateKey,
+        256
+      );
+      const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+      return crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(chatId), info: encoder.encode(CHAT_KEY_INFO) },
+        hkdfKey,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+    })();
+    key.catch(() => chatKeys.delete(cacheKey));
+    chatKeys.set(cacheKey, key);
+  }
+  return key;
+};
+
+export const encryptPayload = async (key: CryptoKey, payload: MessagePayload): Promise<EncryptedPayload> => {
+  const nonce = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    key,
+    encoder.encode(JSON.stringify(payload))
+  );
+  return { ciphertext: toBase64(ciphertext), nonce: toBase64(nonce) };
+};
+
+export const decryptPayload = async (key: CryptoKey, { ciphertext, nonce }: EncryptedPayload) => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(nonce) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return JSON.parse(decoder.decode(plaintext)) as MessagePayload;
+};
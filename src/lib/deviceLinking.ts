@@ -0,0 +1,259 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StoredIdentity, fromBase64, randomBytes, readStoredIdentity, toBase64, writeStoredIdentity } from '@/lib/crypto';
+import { describeThisDevice } from '@/lib/devices';
+import { getEntries, setEntries } from '@/lib/localDb';
+import { SerializedKeyPair, dh, generateDhKeyPair, hkdf } from '@/lib/ratchet';
+
+// Linking copies the account's identity key and cached message keys from a
+// device the user already has to a new browser. The new browser shows a code,
+// and the existing device encrypts the keys to the new browser's ephemeral
+// key. The code never reaches the server: requests are looked up by id, and
+// the code only authenticates the exchange. It is stretched and mixed into the
+// transfer key, and the approving device signs both ephemeral keys with it,
+// which the new browser checks before installing anything. Scanning the QR
+// code also carries a fingerprint of the ephemeral key, so a swapped key is
+// refused outright; a typed code is long enough that it can't be guessed
+// offline from the stored confirmation.
+
+const LINK_INFO = 'SecureConnect device link';
+/** 32 characters, so every random byte maps onto it without bias */
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+/** 80 bits, typed in groups of four */
+const CODE_LENGTH = 16;
+const CODE_GROUP = 4;
+/** Makes every guess at the code cost a full PBKDF2 run */
+const CODE_ITERATIONS = 600_000;
+
+/** A link request started by this browser, waiting for another device */
+export interface PendingLink {
+  id: string;
+  code: string;
+  keyPair: SerializedKeyPair;
+  /** Fingerprint of keyPair's public key, carried by the QR code */
+  fingerprint: string;
+}
+
+/** A link request as seen by the device approving it */
+export interface LinkRequest {
+  id: string;
+  device_name: string;
+  public_key: string;
+  created_at: string;
+}
+
+interface LinkContents {
+  identity: StoredIdentity;
+  messageKeys: Record<string, unknown>;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const normalizeLinkCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const formatLinkCode = (code: string) => code.match(new RegExp(`.{1,${CODE_GROUP}}`, 'g'))?.join('-') ?? '';
+
+/** Placeholder showing the shape of a code */
+export const LINK_CODE_PLACEHOLDER = formatLinkCode('X'.repeat(CODE_LENGTH));
+
+export const isCompleteLinkCode = (code: string) => normalizeLinkCode(code).length === CODE_LENGTH;
+
+/** URL-safe SHA-256 of an ephemeral public key */
+export const keyFingerprint = async (publicKey: string) =>
+  toBase64(await crypto.subtle.digest('SHA-256', fromBase64(publicKey)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/** The code stretched into key material, salted with the request it belongs to */
+const deriveCodeKey = async (code: string, requestId: string) => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(normalizeLinkCode(code)), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(`${LINK_INFO}:${requestId}`), iterations: CODE_ITERATIONS },
+    baseKey,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+const deriveLinkKey = async (privateKey: JsonWebKey, publicKey: string, codeKey: Uint8Array) => {
+  const rawKey = await hkdf(await dh(privateKey, publicKey), codeKey, LINK_INFO, 32);
+  return crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+};
+
+const importConfirmationKey = (codeKey: Uint8Array) =>
+  crypto.subtle.importKey('raw', codeKey, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+/** What the approving device signs: both ephemeral keys, in a fixed order */
+const confirmationData = (requesterKey: string, approverKey: string) =>
+  encoder.encode(`${LINK_INFO}|${requesterKey}|${approverKey}`);
+
+/** Starts linking this browser; the returned code is shown to the user */
+export const createLinkRequest = async (userId: string): Promise<PendingLink> => {
+  const code = Array.from(randomBytes(CODE_LENGTH), (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+  const keyPair = await generateDhKeyPair();
+
+  const { data, error } = await supabase
+    .from('device_link_requests')
+    .insert({
+      user_id: userId,
+      device_name: describeThisDevice(),
+      public_key: keyPair.publicKey,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return { id: data.id, code, keyPair, fingerprint: await keyFingerprint(keyPair.publicKey) };
+};
+
+export const cancelLinkRequest = async (requestId: string) => {
+  const { error } = await supabase.from('device_link_requests').delete().eq('id', requestId);
+  if (error) throw error;
+};
+
+interface LinkAnswer {
+  approver_public_key: string;
+  key_confirmation: string;
+  payload: string;
+  nonce: string;
+}
+
+const completeLink = async (userId: string, link: PendingLink, answer: LinkAnswer) => {
+  const codeKey = await deriveCodeKey(link.code, link.id);
+  const confirmed = await crypto.subtle.verify(
+    'HMAC',
+    await importConfirmationKey(codeKey),
+    fromBase64(answer.key_confirmation),
+    confirmationData(link.keyPair.publicKey, answer.approver_public_key)
+  );
+  if (!confirmed) {
+    throw new Error('The approving device did not enter this code');
+  }
+
+  const key = await deriveLinkKey(link.keyPair.privateKey, answer.approver_public_key, codeKey);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(answer.nonce) },
+    key,
+    fromBase64(answer.payload)
+  );
+  const contents: LinkContents = JSON.parse(decoder.decode(plaintext));
+
+  await setEntries('messageKeys', contents.messageKeys);
+  writeStoredIdentity(userId, contents.identity);
+  await cancelLinkRequest(link.id);
+};
+
+/**
+ * Waits for another device to answer the link request and installs the keys
+ * it sent. Returns a function that stops listening.
+ */
+export const subscribeToLinkApproval = (
+  userId: string,
+  link: PendingLink,
+  onLinked: () => void,
+  onError: (error: unknown) => void
+) => {
+  const channel = supabase
+    .channel(`device-link:${link.id}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'device_link_requests',
+        filter: `id=eq.${link.id}`,
+      },
+      (payload) => {
+        const { approver_public_key, key_confirmation, payload: encrypted, nonce } = payload.new as {
+          [Key in keyof LinkAnswer]: string | null;
+        };
+        if (!approver_public_key || !key_confirmation || !encrypted || !nonce) return;
+
+        completeLink(userId, link, { approver_public_key, key_confirmation, payload: encrypted, nonce }).then(
+          onLinked,
+          onError
+        );
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Unanswered, unexpired requests, newest first. Scanning the new browser's QR
+ * code names its request; a typed code can't, so the user picks the device.
+ */
+export const findLinkRequests = async (userId: string, requestId?: string): Promise<LinkRequest[]> => {
+  let query = supabase
+    .from('device_link_requests')
+    .select('id, device_name, public_key, created_at')
+    .eq('user_id', userId)
+    .is('payload', null)
+    .gt('expires_at', new Date().toISOString());
+
+  if (requestId) {
+    query = query.eq('id', requestId);
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Sends this device's identity and message keys to the requesting browser.
+ * The fingerprint comes from its QR code, if it was scanned.
+ */
+export const approveLinkRequest = async (
+  userId: string,
+  request: LinkRequest,
+  code: string,
+  fingerprint?: string
+) => {
+  if (fingerprint && fingerprint !== (await keyFingerprint(request.public_key))) {
+    throw new Error('The waiting device does not match the scanned code');
+  }
+
+  const identity = readStoredIdentity(userId);
+  if (!identity) {
+    throw new Error('There are no keys on this device to share');
+  }
+
+  const contents: LinkContents = {
+    identity,
+    messageKeys: await getEntries('messageKeys', `${userId}:`),
+  };
+  const ephemeral = await generateDhKeyPair();
+  const codeKey = await deriveCodeKey(code, request.id);
+  const key = await deriveLinkKey(ephemeral.privateKey, request.public_key, codeKey);
+  const confirmation = await crypto.subtle.sign(
+    'HMAC',
+    await importConfirmationKey(codeKey),
+    confirmationData(request.public_key, ephemeral.publicKey)
+  );
+  const nonce = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    key,
+    encoder.encode(JSON.stringify(contents))
+  );
+
+  const { error } = await supabase
+    .from('device_link_requests')
+    .update({
+      approver_public_key: ephemeral.publicKey,
+      key_confirmation: toBase64(confirmation),
+      payload: toBase64(ciphertext),
+      nonce: toBase64(nonce),
+    })
+    .eq('id', request.id);
+
+  if (error) throw error;
+};
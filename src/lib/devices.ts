@@ -0,0 +1,167 @@
+import { supabase } from '@/integrations/supabase/client';
+import { clearStoredIdentity } from '@/lib/crypto';
+import { LocalStoreName, deleteEntries } from '@/lib/localDb';
+
+// Every browser a user signs in on is registered as a device with its own
+// prekey bundle. The device id is generated locally and kept next to the
+// identity key, so clearing site data always yields a new device.
+
+const DEVICE_STORAGE_PREFIX = 'secureconnect:device:';
+/** Local stores holding per-device key material, unsent messages and decrypted text */
+const DEVICE_STORES: LocalStoreName[] = ['sessions', 'prekeys', 'messageKeys', 'backup', 'outbox', 'searchIndex'];
+
+export type LocalDeviceStatus = 'active' | 'revoked' | 'unregistered';
+
+export interface Device {
+  id: string;
+  name: string;
+  created_at: string;
+  last_seen_at: string;
+}
+
+/** Public half of a device, as needed to seal messages for it */
+export interface DeviceBundle {
+  id: string;
+  user_id: string;
+  identity_key: string;
+  signing_key: string;
+  signed_prekey_id: number;
+  signed_prekey: string;
+  signed_prekey_signature: string;
+}
+
+const deviceStorageKey = (userId: string) => `${DEVICE_STORAGE_PREFIX}${userId}`;
+
+export const getLocalDeviceId = (userId: string) => localStorage.getItem(deviceStorageKey(userId));
+
+export const getOrCreateLocalDeviceId = (userId: string) => {
+  let deviceId = getLocalDeviceId(userId);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(deviceStorageKey(userId), deviceId);
+  }
+  return deviceId;
+};
+
+/** A readable default name such as "Chrome on macOS" */
+export const describeThisDevice = () => {
+  const userAgent = navigator.userAgent;
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['OPR/', 'Opera'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? 'Browser';
+  const platform =
+    [
+      ['Android', 'Android'],
+      ['iPhone', 'iPhone'],
+      ['iPad', 'iPad'],
+      ['Mac OS X', 'macOS'],
+      ['Windows', 'Windows'],
+      ['Linux', 'Linux'],
+    ].find(([token]) => userAgent.includes(token))?.[1];
+
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+/** Wipes this browser's keys so it has to be set up again */
+export const clearLocalDevice = async (userId: string) => {
+  for (const store of DEVICE_STORES) {
+    await deleteEntries(store, `${userId}:`);
+  }
+  clearStoredIdentity(userId);
+  localStorage.removeItem(deviceStorageKey(userId));
+};
+
+export const getLocalDeviceStatus = async (userId: string): Promise<LocalDeviceStatus> => {
+  const deviceId = getLocalDeviceId(userId);
+  if (!deviceId) return 'unregistered';
+
+  const { data, error } = await supabase
+    .from('devices')
+    .select('revoked_at')
+    .eq('id', deviceId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return 'unregistered';
+  return data.revoked_at ? 'revoked' : 'active';
+};
+
+/** The user's devices that can still receive messages, newest first */
+export const fetchDevices = async (userId: string): Promise<Device[]> => {
+  const { data, error } = await supabase
+    .from('devices')
+    .select('id, name, created_at, last_seen_at')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Bundles of every active device belonging to the given users. A device whose
+ * signing key isn't the one on its owner's profile, which safety numbers
+ * cover, is left out.
+ */
+export const fetchDeviceBundles = async (userIds: string[]): Promise<DeviceBundle[]> => {
+  const { data, error } = await supabase
+    .from('devices')
+    .select(`
+      id,
+      user_id,
+      identity_key,
+      signing_key,
+      signed_prekey_id,
+      signed_prekey,
+      signed_prekey_signature,
+      profile:profiles!devices_user_id_fkey (signing_key)
+    `)
+    .in('user_id', userIds)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+  return (data || [])
+    .filter((device) => device.signing_key === device.profile?.signing_key)
+    .map(({ profile: _profile, ...bundle }) => bundle);
+};
+
+export const touchDevice = async (deviceId: string) => {
+  const { error } = await supabase
+    .from('devices')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', deviceId);
+
+  if (error) throw error;
+};
+
+/**
+ * Stops new messages from being sealed for a device. Its unused one-time
+ * prekeys are removed too, so no new sessions can be started with it.
+ */
+export const revokeDevice = async (deviceId: string) => {
+  const { error } = await supabase
+    .from('devices')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', deviceId);
+
+  if (error) throw error;
+
+  const { error: prekeyError } = await supabase.from('one_time_prekeys').delete().eq('device_id', deviceId);
+  if (prekeyError) throw prekeyError;
+};
+
+/** Revokes every other device, e.g. after starting over with new keys */
+export const revokeOtherDevices = async (userId: string, deviceId: string) => {
+  const devices = await fetchDevices(userId);
+  for (const device of devices) {
+    if (device.id !== deviceId) {
+      await revokeDevice(device.id);
+    }
+  }
+};
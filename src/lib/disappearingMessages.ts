@@ -0,0 +1,46 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+// Chats can set a timer after which new messages disappear. The server stamps
+// each message with its expiry and deletes it later; clients hide expired
+// messages right away so nothing lingers until the cleanup job runs.
+
+export const DISAPPEARING_TIMER_OPTIONS: { label: string; seconds: number | null }[] = [
+  { label: 'Off', seconds: null },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+];
+
+export interface DisappearingTimerEvent {
+  type: 'disappearing_timer';
+  seconds: number | null;
+}
+
+export const formatDisappearingTimer = (seconds: number | null) =>
+  DISAPPEARING_TIMER_OPTIONS.find((option) => option.seconds === seconds)?.label ?? 'Off';
+
+export const isExpired = (message: { expires_at: string | null }, now = Date.now()) =>
+  !!message.expires_at && new Date(message.expires_at).getTime() <= now;
+
+/** The timer event carried by a system message, if that's what it is */
+export const readTimerEvent = (message: { kind: string; system_event: Json | null }) => {
+  const event = message.system_event as unknown as DisappearingTimerEvent | null;
+  return message.kind === 'system' && event?.type === 'disappearing_timer' ? event : null;
+};
+
+/** e.g. "You set disappearing messages to 1 day" */
+export const describeTimerEvent = (event: DisappearingTimerEvent, actorName: string) =>
+  event.seconds
+    ? `${actorName} set disappearing messages to ${formatDisappearingTimer(event.seconds)}`
+    : `${actorName} turned off disappearing messages`;
+
+export const setDisappearingTimer = async (chatId: string, seconds: number | null) => {
+  const { error } = await supabase.rpc('set_chat_disappearing_timer', {
+    target_chat_id: chatId,
+    // Leaving the argument out turns the timer off
+    seconds: seconds ?? undefined,
+  });
+
+  if (error) throw error;
+};
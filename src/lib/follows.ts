@@ -0,0 +1,109 @@
+import { addDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+
+// Follows end when either side lets go: the follower unfollows (or withdraws a
+// request that hasn't been answered), or the followed user removes them.
+// Direct chats between people who are no longer connected stay readable but
+// take no new messages.
+//
+// Requests left unanswered expire after REQUEST_EXPIRY_DAYS, through a daily
+// job, and a rejection can be undone for REJECTION_UNDO_MINUTES. The database
+// enforces both; these constants only drive what the UI offers.
+
+export type FollowStatus = 'pending' | 'accepted' | 'rejected' | 'expired';
+
+export const REQUEST_EXPIRY_DAYS = 30;
+
+export const REJECTION_UNDO_MINUTES = 10;
+
+interface RequestProfile {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  bio: string | null;
+}
+
+export interface FollowRequest {
+  id: string;
+  status: FollowStatus;
+  /** Whether the signed-in user received or sent the request */
+  direction: 'received' | 'sent';
+  /** The other person */
+  profile: RequestProfile;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Every follow request the user sent or received, most recently changed first */
+export const fetchFollowRequests = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('follows')
+    .select(`
+      id,
+      status,
+      follower_id,
+      created_at,
+      updated_at,
+      follower:profiles!follows_follower_id_fkey (id, username, full_name, avatar_url, bio),
+      following:profiles!follows_following_id_fkey (id, username, full_name, avatar_url, bio)
+    `)
+    .or(`follower_id.eq.${userId},following_id.eq.${userId}`)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || [])
+    .map(({ follower, following, follower_id, ...request }): FollowRequest => {
+      const sent = follower_id === userId;
+      return {
+        ...request,
+        status: request.status as FollowStatus,
+        direction: sent ? 'sent' : 'received',
+        profile: (sent ? following : follower) as RequestProfile,
+      };
+    })
+    .filter((request) => !!request.profile);
+};
+
+/** When a pending request will expire; undoing a rejection restarts the clock */
+export const getRequestExpiry = (request: FollowRequest) => addDays(new Date(request.updated_at), REQUEST_EXPIRY_DAYS);
+
+export const canUndoRejection = (request: FollowRequest) =>
+  request.direction === 'received' &&
+  request.status === 'rejected' &&
+  Date.now() - new Date(request.updated_at).getTime() < REJECTION_UNDO_MINUTES * 60 * 1000;
+
+export const setRequestStatus = async (requestId: string, status: 'accepted' | 'rejected' | 'pending') => {
+  const { error } = await supabase.from('follows').update({ status }).eq('id', requestId);
+
+  if (error) throw error;
+};
+
+/** Stops following someone, or withdraws a pending or expired request to them */
+export const unfollowUser = async (userId: string, otherUserId: string) => {
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', userId)
+    .eq('following_id', otherUserId);
+
+  if (error) throw error;
+};
+
+export const removeFollower = async (userId: string, followerId: string) => {
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('following_id', userId);
+
+  if (error) throw error;
+};
+
+/** Whether the signed-in user and the other user follow each other in either direction */
+export const isConnectedWith = async (otherUserId: string) => {
+  const { data, error } = await supabase.rpc('is_connected_with', { target_user_id: otherUserId });
+
+  if (error) throw error;
+  return !!data;
+};
@@ -0,0 +1,151 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Group chats keep their members in chat_members. Every change to a group
+// goes through a database function that enforces the member's role: admins
+// manage the name, avatar and members; only the owner changes roles.
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+export interface ChatMemberProfile {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  public_key: string | null;
+}
+
+export interface GroupMember extends ChatMemberProfile {
+  role: GroupRole;
+  joined_at: string;
+}
+
+export const canManageGroup = (role: GroupRole | undefined) => role === 'owner' || role === 'admin';
+
+/** Members of a chat, oldest first */
+export const fetchChatMembers = async (chatId: string): Promise<GroupMember[]> => {
+  const { data, error } = await supabase
+    .from('chat_members')
+    .select(`
+      role,
+      joined_at,
+      profile:user_id (
+        id,
+        username,
+        full_name,
+        avatar_url,
+        public_key
+      )
+    `)
+    .eq('chat_id', chatId)
+    .order('joined_at');
+
+  if (error) throw error;
+  return (data || []).map((member) => ({
+    ...member.profile,
+    role: member.role as GroupRole,
+    joined_at: member.joined_at,
+  }));
+};
+
+/** Names of the members of several chats, by chat id and then user id */
+export const fetchMemberNames = async (chatIds: string[]) => {
+  const names: Record<string, Record<string, string>> = {};
+  if (chatIds.length === 0) return names;
+
+  const { data, error } = await supabase
+    .from('chat_members')
+    .select('chat_id, user_id, profile:user_id (full_name)')
+    .in('chat_id', chatIds);
+
+  if (error) throw error;
+  (data || []).forEach((member) => {
+    names[member.chat_id] = { ...names[member.chat_id], [member.user_id]: member.profile.full_name };
+  });
+  return names;
+};
+
+/** Everyone with an accepted follow in either direction */
+export const fetchConnections = async (userId: string): Promise<ChatMemberProfile[]> => {
+  const { data, error } = await supabase
+    .from('follows')
+    .select(`
+      follower_id,
+      follower:profiles!follows_follower_id_fkey (id, username, full_name, avatar_url, public_key),
+      following:profiles!follows_following_id_fkey (id, username, full_name, avatar_url, public_key)
+    `)
+    .or(`follower_id.eq.${userId},following_id.eq.${userId}`)
+    .eq('status', 'accepted');
+
+  if (error) throw error;
+
+  const connections = new Map<string, ChatMemberProfile>();
+  (data || []).forEach((follow) => {
+    const other = follow.follower_id === userId ? follow.following : follow.follower;
+    if (other) connections.set(other.id, other);
+  });
+  return [...connections.values()].sort((a, b) => a.full_name.localeCompare(b.full_name));
+};
+
+export const createGroupChat = async (name: string, memberIds: string[]) => {
+  const { data, error } = await supabase.rpc('create_group_chat', {
+    group_name: name,
+    member_ids: memberIds,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateGroupDetails = async (chatId: string, name: string, avatarUrl: string | null) => {
+  const { error } = await supabase.rpc('update_group_details', {
+    target_chat_id: chatId,
+    new_name: name,
+    new_avatar_url: avatarUrl,
+  });
+
+  if (error) throw error;
+};
+
+/** Uploads a group picture to the public avatars bucket and returns its URL */
+export const uploadGroupAvatar = async (chatId: string, file: File) => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `groups/${chatId}/${Date.now()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from('avatars').upload(filePath, file);
+  if (error) throw error;
+
+  return supabase.storage.from('avatars').getPublicUrl(filePath).data.publicUrl;
+};
+
+export const addGroupMembers = async (chatId: string, memberIds: string[]) => {
+  const { error } = await supabase.rpc('add_group_members', {
+    target_chat_id: chatId,
+    member_ids: memberIds,
+  });
+
+  if (error) throw error;
+};
+
+export const removeGroupMember = async (chatId: string, userId: string) => {
+  const { error } = await supabase.rpc('remove_group_member', {
+    target_chat_id: chatId,
+    target_user_id: userId,
+  });
+
+  if (error) throw error;
+};
+
+export const setGroupMemberRole = async (chatId: string, userId: string, role: Exclude<GroupRole, 'owner'>) => {
+  const { error } = await supabase.rpc('set_group_member_role', {
+    target_chat_id: chatId,
+    target_user_id: userId,
+    new_role: role,
+  });
+
+  if (error) throw error;
+};
+
+export const leaveGroup = async (chatId: string) => {
+  const { error } = await supabase.rpc('leave_group', { target_chat_id: chatId });
+  if (error) throw error;
+};
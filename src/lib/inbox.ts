@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { StoredMessage } from '@/lib/messageCrypto';
+
+// The chat list is loaded with a single call to get_inbox(), which returns
+// each chat with its other participant (or, for groups, its name and
+// picture), latest visible message and unread count, most recently active
+// first.
+
+export interface InboxMessage extends StoredMessage {
+  created_at: string;
+  kind: string;
+  system_event: Json | null;
+}
+
+export interface InboxEntry {
+  chatId: string;
+  /** Set for group chats only */
+  group: {
+    name: string;
+    avatar_url: string | null;
+  } | null;
+  /** Set for direct chats only */
+  otherUser: {
+    id: string;
+    username: string;
+    full_name: string;
+    avatar_url: string | null;
+    public_key: string | null;
+  } | null;
+  lastMessage: InboxMessage | null;
+  lastActivityAt: string;
+  unreadCount: number;
+}
+
+export const fetchInbox = async (): Promise<InboxEntry[]> => {
+  const { data, error } = await supabase.rpc('get_inbox');
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    chatId: row.chat_id,
+    group: row.chat_type === 'group' ? { name: row.chat_name, avatar_url: row.chat_avatar_url } : null,
+    otherUser:
+      row.chat_type === 'direct'
+        ? {
+            id: row.other_user_id,
+            username: row.other_username,
+            full_name: row.other_full_name,
+            avatar_url: row.other_avatar_url,
+            public_key: row.other_public_key,
+          }
+        : null,
+    lastMessage: row.last_message as unknown as InboxMessage | null,
+    lastActivityAt: row.last_activity_at,
+    unreadCount: row.unread_count,
+  }));
+};
@@ -0,0 +1,187 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  StoredIdentity,
+  fromBase64,
+  randomBytes,
+  readStoredIdentity,
+  toBase64,
+  writeStoredIdentity,
+} from '@/lib/crypto';
+import { LocalStoreName, deleteItem, getEntries, getItem, setEntries, setItem } from '@/lib/localDb';
+
+// Opt-in backup of this browser's key material. Everything is encrypted with a
+// key derived from the user's passphrase before it is uploaded, so the server
+// only ever holds an opaque blob.
+
+const KDF = 'PBKDF2-SHA256';
+const KDF_ITERATIONS = 600000;
+const BACKUP_FORMAT_VERSION = 1;
+const REFRESH_DELAY = 10 * 1000;
+
+export const MIN_PASSPHRASE_LENGTH = 10;
+
+/**
+ * Local stores whose entries are included in the backup. Sessions and prekeys
+ * belong to this device; a restored browser registers as a new device.
+ */
+const BACKED_UP_STORES: LocalStoreName[] = ['messageKeys'];
+
+interface BackupContents {
+  version: number;
+  identity: StoredIdentity;
+  stores: Partial<Record<LocalStoreName, Record<string, unknown>>>;
+}
+
+/** Passphrase-derived key kept on this device so the backup can stay current */
+interface LocalBackupKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+export class InvalidPassphraseError extends Error {
+  constructor() {
+    super('The recovery passphrase is incorrect');
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const backupKeyId = (userId: string) => `${userId}:key`;
+
+const deriveBackupKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const collectContents = async (userId: string): Promise<BackupContents> => {
+  const identity = readStoredIdentity(userId);
+  if (!identity) {
+    throw new Error('There are no keys on this device to back up');
+  }
+
+  const stores: BackupContents['stores'] = {};
+  for (const store of BACKED_UP_STORES) {
+    stores[store] = await getEntries(store, `${userId}:`);
+  }
+  return { version: BACKUP_FORMAT_VERSION, identity, stores };
+};
+
+const uploadBackup = async (userId: string, { key, salt, iterations }: LocalBackupKey) => {
+  const nonce = randomBytes(12);
+  const contents = await collectContents(userId);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    key,
+    encoder.encode(JSON.stringify(contents))
+  );
+
+  const { error } = await supabase.from('key_backups').upsert({
+    user_id: userId,
+    ciphertext: toBase64(ciphertext),
+    nonce: toBase64(nonce),
+    salt,
+    kdf: KDF,
+    iterations,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+};
+
+export const fetchBackupStatus = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('key_backups')
+    .select('updated_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Creates the backup, or re-encrypts it under a new passphrase */
+export const createBackup = async (userId: string, passphrase: string) => {
+  const salt = randomBytes(16);
+  const backupKey: LocalBackupKey = {
+    key: await deriveBackupKey(passphrase, salt, KDF_ITERATIONS),
+    salt: toBase64(salt),
+    iterations: KDF_ITERATIONS,
+  };
+
+  await uploadBackup(userId, backupKey);
+  await setItem('backup', backupKeyId(userId), backupKey);
+};
+
+/** Restores keys from the server backup onto this device */
+export const restoreBackup = async (userId: string, passphrase: string) => {
+  const { data: backup, error } = await supabase
+    .from('key_backups')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+
+  const key = await deriveBackupKey(passphrase, fromBase64(backup.salt), backup.iterations);
+  let contents: BackupContents;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(backup.nonce) },
+      key,
+      fromBase64(backup.ciphertext)
+    );
+    contents = JSON.parse(decoder.decode(plaintext));
+  } catch {
+    throw new InvalidPassphraseError();
+  }
+
+  for (const store of BACKED_UP_STORES) {
+    await setEntries(store, contents.stores[store] ?? {});
+  }
+  writeStoredIdentity(userId, contents.identity);
+  await setItem<LocalBackupKey>('backup', backupKeyId(userId), {
+    key,
+    salt: backup.salt,
+    iterations: backup.iterations,
+  });
+};
+
+export const deleteBackup = async (userId: string) => {
+  const { error } = await supabase.from('key_backups').delete().eq('user_id', userId);
+  if (error) throw error;
+  await deleteItem('backup', backupKeyId(userId));
+};
+
+const refreshTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Re-uploads the backup shortly after local keys change, so messages received
+ * after the backup was made stay readable after a restore. Does nothing when
+ * this device has no backup passphrase set up.
+ */
+export const scheduleBackupRefresh = (userId: string) => {
+  clearTimeout(refreshTimers.get(userId));
+  refreshTimers.set(
+    userId,
+    setTimeout(async () => {
+      refreshTimers.delete(userId);
+      try {
+        const backupKey = await getItem<LocalBackupKey>('backup', backupKeyId(userId));
+        if (backupKey) {
+          await uploadBackup(userId, backupKey);
+        }
+      } catch (error) {
+        console.error('Failed to refresh key backup:', error);
+      }
+    }, REFRESH_DELAY)
+  );
+};
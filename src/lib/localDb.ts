@@ -0,0 +1,91 @@
+// Small promise wrapper around the browser's IndexedDB for key material and
+// other state that must never leave the device.
+
+const DB_NAME = 'secureconnect';
+const DB_VERSION = 4;
+
+export type LocalStoreName = 'sessions' | 'prekeys' | 'messageKeys' | 'backup' | 'outbox' | 'searchIndex';
+
+const STORES: LocalStoreName[] = ['sessions', 'prekeys', 'messageKeys', 'backup', 'outbox', 'searchIndex'];
+
+let dbRequest: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbRequest) {
+    dbRequest = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.forEach((store) => {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbRequest = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbRequest;
+};
+
+const run = async <T>(
+  store: LocalStoreName,
+  mode: IDBTransactionMode,
+  action: (objectStore: IDBObjectStore) => IDBRequest
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = action(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getItem = <T>(store: LocalStoreName, key: string) =>
+  run<T | undefined>(store, 'readonly', (objectStore) => objectStore.get(key));
+
+export const setItem = <T>(store: LocalStoreName, key: string, value: T) =>
+  run<IDBValidKey>(store, 'readwrite', (objectStore) => objectStore.put(value, key));
+
+export const deleteItem = (store: LocalStoreName, key: string) =>
+  run<undefined>(store, 'readwrite', (objectStore) => objectStore.delete(key));
+
+/** Returns every entry whose key starts with the prefix, e.g. a user id */
+export const getEntries = async <T>(store: LocalStoreName, prefix: string) => {
+  const db = await openDb();
+  return new Promise<Record<string, T>>((resolve, reject) => {
+    const entries: Record<string, T> = {};
+    const transaction = db.transaction(store, 'readonly');
+    const request = transaction.objectStore(store).openCursor(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      entries[cursor.key as string] = cursor.value as T;
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(entries);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/** Removes every entry whose key starts with the prefix */
+export const deleteEntries = (store: LocalStoreName, prefix: string) =>
+  run<undefined>(store, 'readwrite', (objectStore) =>
+    objectStore.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+  );
+
+export const setEntries = async <T>(store: LocalStoreName, entries: Record<string, T>) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    Object.entries(entries).forEach(([key, value]) => objectStore.put(value, key));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
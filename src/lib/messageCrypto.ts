@@ -0,0 +1,229 @@
+import type { Json } from '@/integrations/supabase/types';
+import {
+  MessagePayload,
+  decryptPayload,
+  encryptPayload,
+  ensureIdentityKey,
+  fromBase64,
+  randomBytes,
+  toBase64,
+} from '@/lib/crypto';
+import { fetchDeviceBundles, getLocalDeviceId } from '@/lib/devices';
+import { deleteItem, getItem, setItem } from '@/lib/localDb';
+import {
+  EnvelopeHeader,
+  MissingPrekeyBundleError,
+  OpenedEnvelopeCache,
+  SealedEnvelope,
+  openFromChat,
+  openFromDevice,
+  sealForDevice,
+} from '@/lib/sessions';
+import { scheduleBackupRefresh } from '@/lib/keyBackup';
+
+// Version 2 seals a fresh random content key per message with the chat's
+// Double Ratchet session; the payload itself is AES-GCM under that key.
+export const RATCHET_KEY_VERSION = 2;
+
+// Version 3 seals the content key once for every linked device of every
+// member, each with the pairwise session between the two devices.
+export const DEVICE_KEY_VERSION = 3;
+
+export const UNDECRYPTABLE_MESSAGE = '🔒 Unable to decrypt this message';
+
+export interface ChatCryptoContext {
+  userId: string;
+  chatId: string;
+  /** Published identity key of every other member, or null if they have none */
+  recipients: Record<string, string | null>;
+  /** Static key for reading version 1 messages */
+  staticKey: CryptoKey | null;
+}
+
+export interface StoredMessage {
+  id: string;
+  sender_id: string;
+  content: string;
+  ciphertext: string | null;
+  nonce: string | null;
+  key_version: number | null;
+  ratchet_header: Json | null;
+  sealed_key: string | null;
+  sender_device_id: string | null;
+  /** Sealed content keys by recipient device id */
+  envelopes: Json | null;
+}
+
+const messageKeyId = (userId: string, messageId: string) => `${userId}:${messageId}`;
+
+const importContentKey = (rawKey: Uint8Array) =>
+  crypto.subtle.importKey('raw', rawKey, 'AES-GCM', false, ['encrypt', 'decrypt']);
+
+/**
+ * Seals the content key for the other members' devices and for our own
+ * other devices. Devices still on an identity key other than the account's
+ * current one are left out; so are devices that have been revoked.
+ */
+const sealForDevices = async (context: ChatCryptoContext, deviceId: string, contentKey: Uint8Array) => {
+  const identity = await ensureIdentityKey(context.userId);
+  const expectedIdentityKeys: Record<string, string | null> = {
+    ...context.recipients,
+    [context.userId]: identity.publicKeyBase64,
+  };
+  const bundles = (await fetchDeviceBundles(Object.keys(expectedIdentityKeys))).filter(
+    (bundle) => bundle.id !== deviceId && bundle.identity_key === expectedIdentityKeys[bundle.user_id]
+  );
+
+  const envelopes: Record<string, SealedEnvelope> = {};
+  let reachesRecipient = false;
+  for (const bundle of bundles) {
+    try {
+      envelopes[bundle.id] = await sealForDevice(context.userId, bundle, contentKey);
+      reachesRecipient ||= bundle.user_id !== context.userId;
+    } catch (error) {
+      console.error(`Failed to seal message for device ${bundle.id}:`, error);
+    }
+  }
+
+  if (!reachesRecipient) throw new MissingPrekeyBundleError();
+  return envelopes;
+};
+
+/** Columns of a new encrypted message, as returned by encryptMessage */
+export interface EncryptedMessage {
+  id: string;
+  content: string;
+  ciphertext: string;
+  nonce: string;
+  key_version: number;
+  sender_device_id: string;
+  envelopes: Json;
+}
+
+/**
+ * Encrypts a payload for a new message and returns the columns to insert.
+ * The content key is kept locally under the message id, since the ratchet
+ * makes it impossible to recover for our own messages later.
+ */
+export const encryptMessage = async (
+  context: ChatCryptoContext,
+  messageId: string,
+  payload: MessagePayload
+): Promise<EncryptedMessage> => {
+  const deviceId = getLocalDeviceId(context.userId);
+  if (!deviceId) {
+    throw new Error('This browser is not registered as a device');
+  }
+
+  const contentKey = randomBytes(32);
+  const envelopes = await sealForDevices(context, deviceId, contentKey);
+  const { ciphertext, nonce } = await encryptPayload(await importContentKey(contentKey), payload);
+  await setItem('messageKeys', messageKeyId(context.userId, messageId), toBase64(contentKey));
+  scheduleBackupRefresh(context.userId);
+
+  return {
+    id: messageId,
+    content: '',
+    ciphertext,
+    nonce,
+    key_version: DEVICE_KEY_VERSION,
+    sender_device_id: deviceId,
+    envelopes: envelopes as unknown as Json,
+  };
+};
+
+/** Opens the envelope addressed to this device, or the per-chat one of older messages */
+const openContentKey = (context: ChatCryptoContext, message: StoredMessage, cache: OpenedEnvelopeCache) => {
+  if (message.key_version === DEVICE_KEY_VERSION) {
+    const deviceId = getLocalDeviceId(context.userId);
+    const envelopes = message.envelopes as unknown as Record<string, SealedEnvelope> | null;
+    const envelope = deviceId ? envelopes?.[deviceId] : undefined;
+    if (!envelope || !message.sender_device_id) return null;
+    return openFromDevice(context.userId, message.sender_device_id, envelope, cache);
+  }
+
+  // Only the recipient can open a per-chat envelope
+  if (message.sender_id === context.userId || !message.ratchet_header || !message.sealed_key) {
+    return null;
+  }
+  const envelope: SealedEnvelope = {
+    header: message.ratchet_header as unknown as EnvelopeHeader,
+    sealedKey: message.sealed_key,
+  };
+  return openFromChat(context.userId, context.chatId, envelope, cache);
+};
+
+const readContentKey = async (context: ChatCryptoContext, message: StoredMessage) => {
+  const key = messageKeyId(context.userId, message.id);
+  const readCached = async () => {
+    const cached = await getItem<string>('messageKeys', key);
+    return cached ? fromBase64(cached) : null;
+  };
+
+  const cached = await readCached();
+  if (cached) return cached;
+
+  // Envelopes can only be opened once, so the key is cached before the
+  // session lock is released and looked up again once it is held
+  let opened = false;
+  const contentKey = await openContentKey(context, message, {
+    read: readCached,
+    write: async (plaintext) => {
+      await setItem('messageKeys', key, toBase64(plaintext));
+      opened = true;
+    },
+  });
+
+  if (opened) scheduleBackupRefresh(context.userId);
+  return contentKey;
+};
+
+/** The AES-GCM key a message's payload is encrypted under, if this device has it */
+const readPayloadKey = async (context: ChatCryptoContext, message: StoredMessage) => {
+  if (message.key_version === RATCHET_KEY_VERSION || message.key_version === DEVICE_KEY_VERSION) {
+    const contentKey = await readContentKey(context, message);
+    return contentKey ? importContentKey(contentKey) : null;
+  }
+  return context.staticKey;
+};
+
+/**
+ * Returns the decrypted payload of a stored message, or null if it can't be
+ * read. Earlier revisions of an edited message are passed in as `encrypted`,
+ * since every revision is encrypted under the message's original key.
+ */
+export const readMessagePayload = async (
+  context: ChatCryptoContext,
+  message: StoredMessage,
+  encrypted: { ciphertext: string | null; nonce: string | null } = message
+): Promise<MessagePayload | null> => {
+  if (!message.key_version) return { text: message.content };
+  if (!encrypted.ciphertext || !encrypted.nonce) return null;
+
+  try {
+    const key = await readPayloadKey(context, message);
+    return key ? await decryptPayload(key, { ciphertext: encrypted.ciphertext, nonce: encrypted.nonce }) : null;
+  } catch (error) {
+    console.error('Failed to decrypt message:', error);
+    return null;
+  }
+};
+
+/**
+ * Encrypts the edited payload of one of our messages under its existing key,
+ * so every device that could read the original can read the edit.
+ */
+export const reencryptMessage = async (context: ChatCryptoContext, message: StoredMessage, payload: MessagePayload) => {
+  const key = message.key_version ? await readPayloadKey(context, message) : null;
+  if (!key) {
+    throw new Error('This message can no longer be edited on this device');
+  }
+  return encryptPayload(key, payload);
+};
+
+/** Drops the cached content key of a message that was deleted */
+export const forgetMessageKey = (userId: string, messageId: string) =>
+  deleteItem('messageKeys', messageKeyId(userId, messageId));
+
+export const readMessageText = async (context: ChatCryptoContext, message: StoredMessage) =>
+  (await readMessagePayload(context, message))?.text ?? UNDECRYPTABLE_MESSAGE;
@@ -0,0 +1,44 @@
+import { supabase } from '@/integrations/supabase/client';
+import { forgetMessageKey } from '@/lib/messageCrypto';
+import { removeFromIndex } from '@/lib/searchIndex';
+
+// "Delete for me" hides a message for the current user only. "Delete for
+// everyone" is limited to the sender and a short window, and leaves a
+// tombstone in place of the message.
+
+/** Mirrors public.message_delete_window() on the server */
+export const MESSAGE_DELETE_WINDOW_MINUTES = 60;
+
+export const canDeleteForEveryone = (
+  message: { sender_id: string; created_at: string; kind: string; deleted_at: string | null },
+  userId: string,
+  now = Date.now()
+) =>
+  message.sender_id === userId &&
+  message.kind === 'message' &&
+  !message.deleted_at &&
+  now - new Date(message.created_at).getTime() < MESSAGE_DELETE_WINDOW_MINUTES * 60 * 1000;
+
+/** Ids of every message the user has deleted for themselves */
+export const fetchHiddenMessageIds = async (userId: string) => {
+  const { data, error } = await supabase.from('message_hidden').select('message_id').eq('user_id', userId);
+
+  if (error) throw error;
+  return new Set((data || []).map((row) => row.message_id));
+};
+
+export const deleteMessageForMe = async (userId: string, messageId: string) => {
+  const { error } = await supabase.from('message_hidden').insert({ user_id: userId, message_id: messageId });
+  if (error) throw error;
+
+  await removeFromIndex(userId, messageId);
+};
+
+export const deleteMessageForEveryone = async (userId: string, messageId: string) => {
+  const { error } = await supabase.rpc('delete_message_for_everyone', { target_message_id: messageId });
+  if (error) throw error;
+
+  // The content key and the indexed text are of no use anymore
+  await forgetMessageKey(userId, messageId);
+  await removeFromIndex(userId, messageId);
+};
@@ -0,0 +1,47 @@
+import { supabase } from '@/integrations/supabase/client';
+import { MessagePayload } from '@/lib/crypto';
+import { ChatCryptoContext, StoredMessage, reencryptMessage } from '@/lib/messageCrypto';
+
+// Messages can be edited by their sender for a short while after sending.
+// Edits keep the message's content key, so earlier versions stay readable in
+// the revision history.
+
+/** Mirrors public.message_edit_window() on the server */
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+export interface MessageRevision {
+  id: string;
+  ciphertext: string;
+  nonce: string;
+  written_at: string;
+  replaced_at: string;
+}
+
+export const canEditMessage = (
+  message: StoredMessage & { created_at: string; kind: string },
+  userId: string,
+  now = Date.now()
+) =>
+  message.sender_id === userId &&
+  message.kind === 'message' &&
+  !!message.key_version &&
+  now - new Date(message.created_at).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+export const editMessage = async (context: ChatCryptoContext, message: StoredMessage, payload: MessagePayload) => {
+  const { ciphertext, nonce } = await reencryptMessage(context, message, payload);
+
+  const { error } = await supabase.from('messages').update({ ciphertext, nonce }).eq('id', message.id);
+  if (error) throw error;
+};
+
+/** Earlier versions of a message, oldest first */
+export const fetchRevisions = async (messageId: string): Promise<MessageRevision[]> => {
+  const { data, error } = await supabase
+    .from('message_revisions')
+    .select('id, ciphertext, nonce, written_at, replaced_at')
+    .eq('message_id', messageId)
+    .order('written_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
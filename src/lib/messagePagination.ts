@@ -0,0 +1,88 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Chat history is loaded newest first in pages, keyed on (created_at, id) so
+// messages sharing a timestamp are neither skipped nor repeated.
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+/** PostgREST filter matching rows strictly before the cursor */
+const beforeCursor = (cursor: MessageCursor) =>
+  `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`;
+
+/**
+ * The page of messages just before `before`, or the latest page without it.
+ * Messages come back oldest first.
+ */
+export const fetchMessagePage = async (chatId: string, before?: MessageCursor) => {
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(MESSAGE_PAGE_SIZE + 1);
+
+  if (before) {
+    query = query.or(beforeCursor(before));
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = data || [];
+  return {
+    messages: rows.slice(0, MESSAGE_PAGE_SIZE).reverse(),
+    hasMore: rows.length > MESSAGE_PAGE_SIZE,
+  };
+};
+
+/** Every message from `from` up to (not including) `before`, oldest first */
+export const fetchMessagesBetween = async (chatId: string, from: MessageCursor, before: MessageCursor) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .or(`created_at.gt."${from.created_at}",and(created_at.eq."${from.created_at}",id.gte.${from.id})`)
+    .or(beforeCursor(before))
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/** A single message of the chat, or null if it is gone */
+export const fetchMessage = async (chatId: string, messageId: string) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/** Reactions on the given messages, grouped by message id */
+export const fetchReactions = async (messageIds: string[]) => {
+  const reactionsByMessage: Record<string, Tables<'message_reactions'>[]> = {};
+  if (messageIds.length === 0) return reactionsByMessage;
+
+  const { data, error } = await supabase.from('message_reactions').select('*').in('message_id', messageIds);
+  if (error) throw error;
+
+  data?.forEach((reaction) => {
+    if (!reactionsByMessage[reaction.message_id]) {
+      reactionsByMessage[reaction.message_id] = [];
+    }
+    reactionsByMessage[reaction.message_id].push(reaction);
+  });
+  return reactionsByMessage;
+};
@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import { fetchHiddenMessageIds } from '@/lib/messageDeletion';
+import { IndexedMessage, removeFromIndex, searchIndex, tokenize } from '@/lib/searchIndex';
+
+// Message search runs every backend and merges their hits. The server can
+// only search messages sent before encryption; everything encrypted is found
+// through this device's local index.
+
+export type MessageSearchHit = IndexedMessage;
+
+export interface MessageSearchBackend {
+  search: (userId: string, query: string, chatId?: string) => Promise<MessageSearchHit[]>;
+}
+
+/** Queries shorter than this are not searched */
+export const MIN_SEARCH_LENGTH = 2;
+
+const MAX_RESULTS = 50;
+
+/** Postgres full-text search; the caller's policies decide which chats are searched */
+export const serverSearchBackend: MessageSearchBackend = {
+  search: async (_userId, query, chatId) => {
+    const { data, error } = await supabase.rpc('search_messages', {
+      search_query: query,
+      target_chat_id: chatId,
+      max_results: MAX_RESULTS,
+    });
+
+    if (error) throw error;
+    return (data || []).map((row) => ({
+      id: row.id,
+      chatId: row.chat_id,
+      senderId: row.sender_id,
+      text: row.content,
+      createdAt: row.created_at,
+    }));
+  },
+};
+
+/** Ids of the given messages that still exist and haven't expired */
+const fetchLiveMessageIds = async (ids: string[]) => {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, expires_at')
+    .in('id', ids)
+    .is('deleted_at', null);
+  if (error) throw error;
+
+  const now = Date.now();
+  return (data || [])
+    .filter((row) => !row.expires_at || new Date(row.expires_at).getTime() > now)
+    .map((row) => row.id);
+};
+
+/**
+ * The local index of decrypted messages. Hits are checked against the
+ * server, so messages that were deleted, hidden, expired or are in chats we
+ * left since don't show; those are dropped from the index on the way. The
+ * newest hits are checked a page at a time, which keeps the request URL short
+ * however common the query is.
+ */
+export const localSearchBackend: MessageSearchBackend = {
+  search: async (userId, query, chatId) => {
+    const hits = await searchIndex(userId, query, chatId);
+    if (hits.length === 0) return [];
+    hits.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const hiddenIds = await fetchHiddenMessageIds(userId);
+    const live: MessageSearchHit[] = [];
+
+    for (let start = 0; start < hits.length && live.length < MAX_RESULTS; start += MAX_RESULTS) {
+      const page = hits.slice(start, start + MAX_RESULTS);
+      const liveIds = new Set(await fetchLiveMessageIds(page.map((hit) => hit.id)));
+
+      page.forEach((hit) => {
+        if (liveIds.has(hit.id) && !hiddenIds.has(hit.id)) {
+          live.push(hit);
+        } else {
+          removeFromIndex(userId, hit.id).catch(() => undefined);
+        }
+      });
+    }
+
+    return live.slice(0, MAX_RESULTS);
+  },
+};
+
+const backends: MessageSearchBackend[] = [serverSearchBackend, localSearchBackend];
+
+/** Hits from every backend, newest first; chatId limits the search to one chat */
+export const searchMessages = async (userId: string, query: string, chatId?: string) => {
+  if (query.trim().length < MIN_SEARCH_LENGTH) return [];
+
+  const results = await Promise.all(backends.map((backend) => backend.search(userId, query, chatId)));
+  const hits = new Map<string, MessageSearchHit>();
+  results.flat().forEach((hit) => hits.set(hit.id, hit));
+
+  return [...hits.values()]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_RESULTS);
+};
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * The part of a text around its first match, split into matching and other
+ * parts so the matches can be highlighted
+ */
+export const getSnippet = (text: string, query: string, context = 40): SnippetPart[] => {
+  const terms = tokenize(query).map((term) => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // Words of the text that start with one of the query's words
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.join('|')})[\\p{L}\\p{N}]*`, 'giu');
+  const first = text.search(pattern);
+  const start = first > context ? first - context : 0;
+  const end = Math.max(first, 0) + context * 2;
+  const excerpt = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  for (const match of excerpt.matchAll(pattern)) {
+    if (match.index! > last) parts.push({ text: excerpt.slice(last, match.index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < excerpt.length) parts.push({ text: excerpt.slice(last), match: false });
+  return parts;
+};
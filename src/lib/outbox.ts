@@ -0,0 +1,101 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AttachmentInfo } from '@/lib/crypto';
+import { EncryptedMessage, encryptMessage } from '@/lib/messageCrypto';
+import { uploadEncryptedAttachment } from '@/lib/attachments';
+import { fetchChatMembers } from '@/lib/groups';
+import { deleteItem, getEntries, setItem } from '@/lib/localDb';
+
+// Messages are queued here before they are sent, so they survive reloads and
+// going offline. The entry id becomes the message id, which lets a retry
+// recognise a row that was inserted before the response got lost, and lets
+// the chat match its optimistic bubble to the realtime echo.
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  userId: string;
+  chatId: string;
+  text: string;
+  replyToId: string | null;
+  /** File still to be encrypted and uploaded */
+  file?: File;
+  /** Set once the file has been uploaded, so a retry doesn't upload it again */
+  attachment?: AttachmentInfo;
+  /**
+   * Set once the message has been encrypted. A retry sends these same bytes,
+   * since its content key is the one kept for a row that may already exist.
+   */
+  encrypted?: EncryptedMessage;
+  createdAt: string;
+  status: OutboxStatus;
+}
+
+export type EncryptedOutboxEntry = OutboxEntry & { encrypted: EncryptedMessage };
+
+const outboxKey = (entry: Pick<OutboxEntry, 'userId' | 'chatId' | 'id'>) =>
+  `${entry.userId}:${entry.chatId}:${entry.id}`;
+
+/** Every unsent message of the user, oldest first */
+export const loadOutbox = async (userId: string) => {
+  const entries = await getEntries<OutboxEntry>('outbox', `${userId}:`);
+  return Object.values(entries).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const saveOutboxEntry = (entry: OutboxEntry) => setItem('outbox', outboxKey(entry), entry);
+
+export const removeOutboxEntry = (entry: OutboxEntry) => deleteItem('outbox', outboxKey(entry));
+
+/** Uploads the entry's file, if it has one that isn't uploaded yet */
+export const uploadOutboxAttachment = async (entry: OutboxEntry) => {
+  if (!entry.file || entry.attachment) return entry;
+
+  const uploaded = { ...entry, attachment: await uploadEncryptedAttachment(entry.chatId, entry.file) };
+  await saveOutboxEntry(uploaded);
+  return uploaded;
+};
+
+/**
+ * Encrypts a queued message, unless an earlier attempt already did. The
+ * recipients are looked up when it is encrypted, since members may have
+ * joined or left while it waited.
+ */
+export const encryptOutboxEntry = async (entry: OutboxEntry): Promise<EncryptedOutboxEntry> => {
+  if (entry.encrypted) return { ...entry, encrypted: entry.encrypted };
+
+  const members = await fetchChatMembers(entry.chatId);
+  const context = {
+    userId: entry.userId,
+    chatId: entry.chatId,
+    recipients: Object.fromEntries(
+      members.filter((member) => member.id !== entry.userId).map((member) => [member.id, member.public_key])
+    ),
+    staticKey: null,
+  };
+
+  const encrypted = {
+    ...entry,
+    encrypted: await encryptMessage(context, entry.id, {
+      text: entry.text,
+      attachment: entry.attachment,
+    }),
+  };
+  await saveOutboxEntry(encrypted);
+  return encrypted;
+};
+
+/** Inserts an encrypted queued message */
+export const sendOutboxEntry = async (entry: EncryptedOutboxEntry) => {
+  // media_url only records the opaque object path so the file can be cleaned
+  // up with the message
+  const { error } = await supabase.from('messages').insert({
+    ...entry.encrypted,
+    chat_id: entry.chatId,
+    sender_id: entry.userId,
+    media_url: entry.attachment?.path ?? null,
+    reply_to_id: entry.replyToId,
+  });
+
+  // A duplicate id means an earlier attempt went through after all
+  if (error && error.code !== '23505') throw error;
+};
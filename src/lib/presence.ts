@@ -0,0 +1,25 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Typing state is broadcast on the chat's realtime channel and never stored.
+// While typing, senders repeat the announcement so a missed "stopped" event
+// can't leave the indicator stuck.
+
+export const TYPING_EVENT = 'typing';
+
+/** How long after the last keystroke typing counts as stopped */
+export const TYPING_IDLE_MS = 3000;
+
+/** Receivers drop the indicator if no announcement arrives for this long */
+export const TYPING_EXPIRY_MS = 6000;
+
+export interface TypingPayload {
+  userId: string;
+  typing: boolean;
+}
+
+/** When a chat partner was last online, or null if either side hides it */
+export const fetchLastSeen = async (userId: string) => {
+  const { data, error } = await supabase.rpc('get_last_seen', { target_user_id: userId });
+  if (error) throw error;
+  return data;
+};
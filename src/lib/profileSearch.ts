@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// People search runs on the server a page at a time; profiles are no longer
+// readable by everyone, so Discover only ever sees the matching page.
+
+export interface ProfileSummary {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  bio: string | null;
+}
+
+export interface SuggestedProfile extends ProfileSummary {
+  /** Connections of the user who follow this person */
+  mutual_count: number;
+}
+
+/** Mirrors the minimum query length in public.search_profiles() */
+export const MIN_PROFILE_SEARCH_LENGTH = 2;
+
+export const PROFILE_PAGE_SIZE = 20;
+
+export class SearchRateLimitError extends Error {
+  constructor() {
+    super('Too many searches, try again in a minute');
+    this.name = 'SearchRateLimitError';
+  }
+}
+
+/** One page of profiles matching the query, best match first */
+export const searchProfiles = async (query: string, offset = 0) => {
+  // One extra row tells whether there is another page
+  const { data, error } = await supabase.rpc('search_profiles', {
+    search_query: query,
+    result_limit: PROFILE_PAGE_SIZE + 1,
+    result_offset: offset,
+  });
+
+  if (error) {
+    throw error.code === 'PT429' ? new SearchRateLimitError() : error;
+  }
+  const rows: ProfileSummary[] = data || [];
+  return {
+    profiles: rows.slice(0, PROFILE_PAGE_SIZE),
+    hasMore: rows.length > PROFILE_PAGE_SIZE,
+  };
+};
+
+/** People to show before anything is searched */
+export const fetchSuggestedProfiles = async () => {
+  const { data, error } = await supabase.rpc('suggest_profiles');
+
+  if (error) throw error;
+  const profiles: SuggestedProfile[] = data || [];
+  return profiles;
+};
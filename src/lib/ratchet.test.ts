@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fromBase64, randomBytes, toBase64 } from '@/lib/crypto';
+import {
+  RatchetState,
+  generateDhKeyPair,
+  initReceiverState,
+  initSenderState,
+  ratchetDecrypt,
+  ratchetEncrypt,
+} from '@/lib/ratchet';
+
+// Only the encoding helpers of the crypto module are used here
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/** Alice sends first, to the ratchet key Bob would publish as his signed prekey */
+const setup = async () => {
+  const sharedSecret = randomBytes(32);
+  const associatedData = randomBytes(64);
+  const bobRatchetKey = await generateDhKeyPair();
+  return {
+    alice: await initSenderState(sharedSecret, bobRatchetKey.publicKey, associatedData),
+    bob: initReceiverState(sharedSecret, bobRatchetKey, associatedData),
+  };
+};
+
+const send = async (state: RatchetState, text: string) => {
+  const { state: next, header, ciphertext } = await ratchetEncrypt(state, encoder.encode(text));
+  return { state: next, message: { header, ciphertext } };
+};
+
+const receive = async (state: RatchetState, message: Awaited<ReturnType<typeof send>>['message']) => {
+  const { state: next, plaintext } = await ratchetDecrypt(state, message.header, message.ciphertext);
+  return { state: next, text: decoder.decode(plaintext) };
+};
+
+const tamper = (ciphertext: string) => {
+  const bytes = fromBase64(ciphertext);
+  bytes[bytes.length - 1] ^= 1;
+  return toBase64(bytes);
+};
+
+describe('ratchet', () => {
+  it('decrypts messages delivered in order', async () => {
+    let { alice, bob } = await setup();
+
+    for (const text of ['one', 'two', 'three']) {
+      const sent = await send(alice, text);
+      alice = sent.state;
+      const received = await receive(bob, sent.message);
+      bob = received.state;
+      expect(received.text).toBe(text);
+    }
+  });
+
+  it('decrypts messages delivered out of order using skipped keys', async () => {
+    let { alice, bob } = await setup();
+
+    const messages = [];
+    for (const text of ['one', 'two', 'three']) {
+      const sent = await send(alice, text);
+      alice = sent.state;
+      messages.push(sent.message);
+    }
+
+    const third = await receive(bob, messages[2]);
+    bob = third.state;
+    expect(third.text).toBe('three');
+    expect(Object.keys(bob.skipped)).toHaveLength(2);
+
+    const first = await receive(bob, messages[0]);
+    bob = first.state;
+    const second = await receive(bob, messages[1]);
+    bob = second.state;
+
+    expect([first.text, second.text]).toEqual(['one', 'two']);
+    expect(bob.skipped).toEqual({});
+  });
+
+  it('rejects a message that would skip more than MAX_SKIP keys', async () => {
+    const { alice, bob } = await setup();
+    const { message } = await send(alice, 'too far ahead');
+
+    await expect(ratchetDecrypt(bob, { ...message.header, n: 1001 }, message.ciphertext)).rejects.toThrow(
+      'Too many skipped messages'
+    );
+  });
+
+  it('steps the DH ratchet each time the conversation changes direction', async () => {
+    let { alice, bob } = await setup();
+    const aliceKeys = new Set<string>();
+    const bobKeys = new Set<string>();
+
+    for (let turn = 0; turn < 3; turn++) {
+      const fromAlice = await send(alice, `alice ${turn}`);
+      alice = fromAlice.state;
+      aliceKeys.add(fromAlice.message.header.dh);
+      const atBob = await receive(bob, fromAlice.message);
+      bob = atBob.state;
+      expect(atBob.text).toBe(`alice ${turn}`);
+
+      const fromBob = await send(bob, `bob ${turn}`);
+      bob = fromBob.state;
+      bobKeys.add(fromBob.message.header.dh);
+      const atAlice = await receive(alice, fromBob.message);
+      alice = atAlice.state;
+      expect(atAlice.text).toBe(`bob ${turn}`);
+    }
+
+    expect(aliceKeys.size).toBe(3);
+    expect(bobKeys.size).toBe(3);
+  });
+
+  it('leaves the state untouched when the header or ciphertext was tampered with', async () => {
+    const { alice, bob } = await setup();
+    const { message } = await send(alice, 'hello');
+    const before = JSON.stringify(bob);
+
+    await expect(ratchetDecrypt(bob, { ...message.header, pn: 1 }, message.ciphertext)).rejects.toThrow();
+    await expect(ratchetDecrypt(bob, message.header, tamper(message.ciphertext))).rejects.toThrow();
+    expect(JSON.stringify(bob)).toBe(before);
+
+    expect((await receive(bob, message)).text).toBe('hello');
+  });
+});
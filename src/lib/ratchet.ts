@@ -0,0 +1,252 @@
+import { fromBase64, toBase64 } from '@/lib/crypto';
+
+// Double Ratchet (https://signal.org/docs/specifications/doubleratchet/) over
+// P-256 ECDH, HKDF-SHA-256 and AES-GCM. States are plain JSON so they can be
+// persisted, cloned and thrown away when a decryption attempt fails.
+
+const ECDH_PARAMS: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+/** Upper bound on message keys derived ahead for a single chain */
+const MAX_SKIP = 1000;
+/** Upper bound on skipped message keys kept around for late messages */
+const MAX_STORED_SKIPPED = 2000;
+
+const ROOT_INFO = 'SecureConnect ratchet root';
+const MESSAGE_INFO = 'SecureConnect ratchet message';
+
+const encoder = new TextEncoder();
+
+export interface SerializedKeyPair {
+  publicKey: string;
+  privateKey: JsonWebKey;
+}
+
+export interface RatchetHeader {
+  /** Sender's current ratchet public key */
+  dh: string;
+  /** Number of messages in the sender's previous sending chain */
+  pn: number;
+  /** Message number in the current sending chain */
+  n: number;
+}
+
+export interface RatchetState {
+  rootKey: string;
+  sendingChainKey: string | null;
+  receivingChainKey: string | null;
+  dhSelf: SerializedKeyPair;
+  dhRemote: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  /** Message keys for messages not received yet, keyed by `${dh}:${n}` */
+  skipped: Record<string, string>;
+  associatedData: string;
+}
+
+export const generateDhKeyPair = async (): Promise<SerializedKeyPair> => {
+  const pair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  return {
+    publicKey: toBase64(await crypto.subtle.exportKey('raw', pair.publicKey)),
+    privateKey: await crypto.subtle.exportKey('jwk', pair.privateKey),
+  };
+};
+
+export const importDhPrivateKey = (privateKey: JsonWebKey) =>
+  crypto.subtle.importKey('jwk', privateKey, ECDH_PARAMS, false, ['deriveBits']);
+
+export const dh = async (privateKey: CryptoKey | JsonWebKey, publicKey: string) => {
+  const key = privateKey instanceof CryptoKey ? privateKey : await importDhPrivateKey(privateKey);
+  const remote = await crypto.subtle.importKey('raw', fromBase64(publicKey), ECDH_PARAMS, false, []);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: remote }, key, 256));
+};
+
+export const hkdf = async (ikm: Uint8Array, salt: Uint8Array, info: string, length: number) => {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(info) },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+};
+
+const hmac = async (key: Uint8Array, data: Uint8Array) => {
+  const hmacKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, data));
+};
+
+export const concatBytes = (...parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  parts.forEach((part) => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const kdfRootKey = async (rootKey: string, dhOutput: Uint8Array) => {
+  const output = await hkdf(dhOutput, fromBase64(rootKey), ROOT_INFO, 64);
+  return { rootKey: toBase64(output.slice(0, 32)), chainKey: toBase64(output.slice(32)) };
+};
+
+const kdfChainKey = async (chainKey: string) => {
+  const key = fromBase64(chainKey);
+  return {
+    messageKey: toBase64(await hmac(key, new Uint8Array([1]))),
+    chainKey: toBase64(await hmac(key, new Uint8Array([2]))),
+  };
+};
+
+const encodeHeader = ({ dh, pn, n }: RatchetHeader) => encoder.encode(JSON.stringify({ dh, pn, n }));
+
+// The AES-GCM key and nonce both come from the single-use message key
+const messageCipher = async (messageKey: string) => {
+  const output = await hkdf(fromBase64(messageKey), new Uint8Array(32), MESSAGE_INFO, 44);
+  return {
+    key: await crypto.subtle.importKey('raw', output.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']),
+    iv: output.slice(32),
+  };
+};
+
+const seal = async (messageKey: string, plaintext: Uint8Array, additionalData: Uint8Array) => {
+  const { key, iv } = await messageCipher(messageKey);
+  return toBase64(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, plaintext));
+};
+
+const open = async (messageKey: string, ciphertext: string, additionalData: Uint8Array) => {
+  const { key, iv } = await messageCipher(messageKey);
+  return new Uint8Array(
+    await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData }, key, fromBase64(ciphertext))
+  );
+};
+
+const cloneState = (state: RatchetState): RatchetState => JSON.parse(JSON.stringify(state));
+
+/** Initial state for the party that sent the first message (X3DH initiator) */
+export const initSenderState = async (
+  sharedSecret: Uint8Array,
+  remoteRatchetKey: string,
+  associatedData: Uint8Array,
+  dhSelf?: SerializedKeyPair
+): Promise<RatchetState> => {
+  const self = dhSelf ?? (await generateDhKeyPair());
+  const { rootKey, chainKey } = await kdfRootKey(
+    toBase64(sharedSecret),
+    await dh(self.privateKey, remoteRatchetKey)
+  );
+  return {
+    rootKey,
+    sendingChainKey: chainKey,
+    receivingChainKey: null,
+    dhSelf: self,
+    dhRemote: remoteRatchetKey,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    associatedData: toBase64(associatedData),
+  };
+};
+
+/** Initial state for the party that answers, using its signed prekey pair */
+export const initReceiverState = (
+  sharedSecret: Uint8Array,
+  selfRatchetKeyPair: SerializedKeyPair,
+  associatedData: Uint8Array
+): RatchetState => ({
+  rootKey: toBase64(sharedSecret),
+  sendingChainKey: null,
+  receivingChainKey: null,
+  dhSelf: selfRatchetKeyPair,
+  dhRemote: null,
+  sendCount: 0,
+  receiveCount: 0,
+  previousSendCount: 0,
+  skipped: {},
+  associatedData: toBase64(associatedData),
+});
+
+export const ratchetEncrypt = async (current: RatchetState, plaintext: Uint8Array) => {
+  if (!current.sendingChainKey) {
+    throw new Error('Ratchet has no sending chain yet');
+  }
+
+  const state = cloneState(current);
+  const { chainKey, messageKey } = await kdfChainKey(state.sendingChainKey);
+  const header: RatchetHeader = { dh: state.dhSelf.publicKey, pn: state.previousSendCount, n: state.sendCount };
+  state.sendingChainKey = chainKey;
+  state.sendCount += 1;
+
+  const ciphertext = await seal(
+    messageKey,
+    plaintext,
+    concatBytes(fromBase64(state.associatedData), encodeHeader(header))
+  );
+  return { state, header, ciphertext };
+};
+
+const skipMessageKeys = async (state: RatchetState, until: number) => {
+  if (state.receiveCount + MAX_SKIP < until) {
+    throw new Error('Too many skipped messages');
+  }
+  if (!state.receivingChainKey) return;
+
+  while (state.receiveCount < until) {
+    const { chainKey, messageKey } = await kdfChainKey(state.receivingChainKey);
+    state.skipped[`${state.dhRemote}:${state.receiveCount}`] = messageKey;
+    state.receivingChainKey = chainKey;
+    state.receiveCount += 1;
+  }
+
+  // Drop the oldest keys once the store grows past its bound
+  const keys = Object.keys(state.skipped);
+  keys.slice(0, Math.max(0, keys.length - MAX_STORED_SKIPPED)).forEach((key) => {
+    delete state.skipped[key];
+  });
+};
+
+const dhRatchetStep = async (state: RatchetState, header: RatchetHeader) => {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.dhRemote = header.dh;
+
+  const receiving = await kdfRootKey(state.rootKey, await dh(state.dhSelf.privateKey, state.dhRemote));
+  state.rootKey = receiving.rootKey;
+  state.receivingChainKey = receiving.chainKey;
+
+  state.dhSelf = await generateDhKeyPair();
+  const sending = await kdfRootKey(state.rootKey, await dh(state.dhSelf.privateKey, state.dhRemote));
+  state.rootKey = sending.rootKey;
+  state.sendingChainKey = sending.chainKey;
+};
+
+/**
+ * Decrypts a message and returns the advanced state. The input state is never
+ * modified, so a failed attempt (wrong session, tampered message) leaves the
+ * caller's state intact.
+ */
+export const ratchetDecrypt = async (current: RatchetState, header: RatchetHeader, ciphertext: string) => {
+  const state = cloneState(current);
+  const additionalData = concatBytes(fromBase64(state.associatedData), encodeHeader(header));
+
+  const skippedKey = state.skipped[`${header.dh}:${header.n}`];
+  if (skippedKey) {
+    delete state.skipped[`${header.dh}:${header.n}`];
+    return { state, plaintext: await open(skippedKey, ciphertext, additionalData) };
+  }
+
+  if (header.dh !== state.dhRemote) {
+    await skipMessageKeys(state, header.pn);
+    await dhRatchetStep(state, header);
+  }
+
+  await skipMessageKeys(state, header.n);
+  const { chainKey, messageKey } = await kdfChainKey(state.receivingChainKey);
+  state.receivingChainKey = chainKey;
+  state.receiveCount += 1;
+
+  return { state, plaintext: await open(messageKey, ciphertext, additionalData) };
+};
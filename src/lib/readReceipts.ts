@@ -0,0 +1,78 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Every user has a private read cursor per chat. The other members see
+// delivery and read progress through read_receipts; read progress is only
+// shared, and only shown, while both sides have read receipts enabled.
+
+// pending and failed only apply to messages still in the outbox
+export type MessageStatus = 'pending' | 'failed' | 'sent' | 'delivered' | 'read';
+
+export interface ReadReceipt {
+  delivered_at: string | null;
+  read_at: string | null;
+}
+
+const getReceiptStatus = (sentAt: number, receipt: ReadReceipt | null, showRead: boolean): MessageStatus => {
+  if (showRead && receipt?.read_at && new Date(receipt.read_at).getTime() >= sentAt) {
+    return 'read';
+  }
+  if (receipt?.delivered_at && new Date(receipt.delivered_at).getTime() >= sentAt) {
+    return 'delivered';
+  }
+  return 'sent';
+};
+
+/** A message is only delivered or read once it is for every recipient */
+export const getMessageStatus = (
+  message: { created_at: string },
+  receipts: (ReadReceipt | null)[],
+  showRead: boolean
+): MessageStatus => {
+  const sentAt = new Date(message.created_at).getTime();
+  const statuses = receipts.map((receipt) => getReceiptStatus(sentAt, receipt, showRead));
+  if (statuses.length === 0 || statuses.includes('sent')) return 'sent';
+  return statuses.includes('delivered') ? 'delivered' : 'read';
+};
+
+/** Caps unread counts so badges stay small */
+export const formatUnreadCount = (count: number) => (count > 99 ? '99+' : String(count));
+
+/** When the user last read the chat, or null if never */
+export const fetchReadCursor = async (chatId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from('chat_reads')
+    .select('last_read_at')
+    .eq('chat_id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.last_read_at ?? null;
+};
+
+/**
+ * Receipts of everyone in the chat, by user id. Read progress is left out
+ * while the caller doesn't share their own.
+ */
+export const fetchReadReceipts = async (chatId: string) => {
+  const { data, error } = await supabase.rpc('get_read_receipts', { target_chat_id: chatId });
+
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).map(({ user_id, ...receipt }) => [user_id, receipt])
+  ) as Record<string, ReadReceipt>;
+};
+
+export const markChatRead = async (chatId: string, messageId: string) => {
+  const { error } = await supabase.rpc('mark_chat_read', {
+    target_chat_id: chatId,
+    read_message_id: messageId,
+  });
+  if (error) throw error;
+};
+
+/** Marks received messages as delivered in one chat, or in every chat */
+export const markMessagesDelivered = async (chatId?: string) => {
+  const { error } = await supabase.rpc('mark_messages_delivered', { target_chat_id: chatId });
+  if (error) throw error;
+};
@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Users report accounts, optionally pointing at one of their messages.
+// Messages are end-to-end encrypted, so moderators only see a message's text
+// when the reporter chooses to attach it.
+
+export type ReportReason = 'spam' | 'harassment' | 'hate' | 'impersonation' | 'inappropriate' | 'other';
+
+export type ReportStatus = 'open' | 'reviewing' | 'resolved' | 'dismissed';
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam or scam' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'hate', label: 'Hate speech' },
+  { value: 'impersonation', label: 'Impersonation' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'other', label: 'Something else' },
+];
+
+export const REPORT_STATUSES: { value: ReportStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'reviewing', label: 'Reviewing' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'dismissed', label: 'Dismissed' },
+];
+
+export const getReasonLabel = (reason: string) =>
+  REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+
+export interface NewReport {
+  reportedUserId: string;
+  reason: ReportReason;
+  details: string;
+  messageId?: string;
+  attachmentPath?: string | null;
+  /** Only set when the reporter chose to share the decrypted text */
+  messageText?: string;
+}
+
+interface ReportProfile {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+}
+
+export interface Report {
+  id: string;
+  reason: string;
+  details: string | null;
+  message_id: string | null;
+  attachment_path: string | null;
+  message_text: string | null;
+  status: ReportStatus;
+  resolution_note: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  reporter: ReportProfile | null;
+  reported: (ReportProfile & { suspended_at: string | null }) | null;
+}
+
+export const submitReport = async (userId: string, report: NewReport) => {
+  const { error } = await supabase.from('reports').insert({
+    reporter_id: userId,
+    reported_user_id: report.reportedUserId,
+    reason: report.reason,
+    details: report.details.trim() || null,
+    message_id: report.messageId ?? null,
+    attachment_path: report.attachmentPath ?? null,
+    message_text: report.messageText ?? null,
+  });
+
+  if (error) throw error;
+};
+
+/** Reports in the given state, oldest first so the queue is worked in order */
+export const fetchReports = async (status: ReportStatus) => {
+  const { data, error } = await supabase
+    .from('reports')
+    .select(`
+      id,
+      reason,
+      details,
+      message_id,
+      attachment_path,
+      message_text,
+      status,
+      resolution_note,
+      resolved_at,
+      created_at,
+      reporter:profiles!reports_reporter_id_fkey (id, username, full_name, avatar_url),
+      reported:profiles!reports_reported_user_id_fkey (
+        id,
+        username,
+        full_name,
+        avatar_url,
+        suspension:account_suspensions!account_suspensions_user_id_fkey (suspended_at)
+      )
+    `)
+    .eq('status', status)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(({ reported, ...report }): Report => ({
+    ...report,
+    status: report.status as ReportStatus,
+    reported: reported && {
+      id: reported.id,
+      username: reported.username,
+      full_name: reported.full_name,
+      avatar_url: reported.avatar_url,
+      suspended_at: reported.suspension?.suspended_at ?? null,
+    },
+  }));
+};
+
+export const updateReportStatus = async (
+  moderatorId: string,
+  reportId: string,
+  status: ReportStatus,
+  resolutionNote?: string
+) => {
+  const closed = status === 'resolved' || status === 'dismissed';
+  const { error } = await supabase
+    .from('reports')
+    .update({
+      status,
+      resolution_note: resolutionNote?.trim() || null,
+      resolved_by: closed ? moderatorId : null,
+      resolved_at: closed ? new Date().toISOString() : null,
+    })
+    .eq('id', reportId);
+
+  if (error) throw error;
+};
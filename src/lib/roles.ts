@@ -0,0 +1,17 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+// Roles are granted in the database; the app only reads them to decide what
+// to show. Every privileged action is checked again by the server.
+
+export type AppRole = Database['public']['Enums']['app_role'];
+
+export const fetchRoles = async (userId: string) => {
+  const { data, error } = await supabase.from('user_roles').select('role').eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).map((row) => row.role);
+};
+
+/** Admins can do everything moderators can */
+export const canModerate = (roles: AppRole[]) => roles.includes('moderator') || roles.includes('admin');
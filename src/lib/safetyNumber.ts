@@ -0,0 +1,53 @@
+import { fromBase64 } from '@/lib/crypto';
+
+// Safety numbers follow Signal's numeric fingerprint: each user's identity key
+// is hashed with their id into 30 digits, and the two halves are ordered by
+// user id so both sides of a chat see the same 60 digits. The key that signs
+// their prekeys is hashed in too, since it has no other tie to the identity.
+
+const FINGERPRINT_VERSION = 1;
+const ITERATIONS = 5200;
+
+const encoder = new TextEncoder();
+
+/** A user's published identity key and the key that signs their prekeys */
+export interface SafetyKeys {
+  identityKey: string;
+  signingKey: string;
+}
+
+const displayableFingerprint = async (userId: string, keys: SafetyKeys) => {
+  const key = new Uint8Array([...fromBase64(keys.identityKey), ...fromBase64(keys.signingKey)]);
+  let hash = new Uint8Array([0, FINGERPRINT_VERSION, ...key, ...encoder.encode(userId)]);
+  for (let i = 0; i < ITERATIONS; i++) {
+    hash = new Uint8Array(await crypto.subtle.digest('SHA-512', new Uint8Array([...hash, ...key])));
+  }
+
+  let digits = '';
+  for (let chunk = 0; chunk < 6; chunk++) {
+    const offset = chunk * 5;
+    const value =
+      hash[offset] * 2 ** 32 +
+      hash[offset + 1] * 2 ** 24 +
+      hash[offset + 2] * 2 ** 16 +
+      hash[offset + 3] * 2 ** 8 +
+      hash[offset + 4];
+    digits += (value % 100000).toString().padStart(5, '0');
+  }
+  return digits;
+};
+
+/** 60-digit safety number for a pair of users and their published keys */
+export const computeSafetyNumber = async (
+  userId: string,
+  keys: SafetyKeys,
+  otherUserId: string,
+  otherKeys: SafetyKeys
+) => {
+  const ours = await displayableFingerprint(userId, keys);
+  const theirs = await displayableFingerprint(otherUserId, otherKeys);
+  return userId < otherUserId ? ours + theirs : theirs + ours;
+};
+
+/** Splits a safety number into the 5-digit groups shown to users */
+export const formatSafetyNumber = (safetyNumber: string) => safetyNumber.match(/.{1,5}/g) ?? [];
@@ -0,0 +1,69 @@
+import { deleteItem, getEntries, getItem, setEntries } from '@/lib/localDb';
+
+// An inverted index over the messages this device has decrypted, since the
+// server can't search encrypted text. Every word of a message is stored as
+// its own key, `<user>:term:<word>:<message id>`, so words match as prefixes
+// with a single key range and updates never rewrite shared posting lists.
+
+export interface IndexedMessage {
+  id: string;
+  chatId: string;
+  senderId: string;
+  text: string;
+  createdAt: string;
+}
+
+const messageKey = (userId: string, messageId: string) => `${userId}:message:${messageId}`;
+
+const termPrefix = (userId: string, term: string) => `${userId}:term:${term}`;
+
+/** Lowercased words of a text, without duplicates */
+export const tokenize = (text: string) =>
+  Array.from(new Set(text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)));
+
+const removeTerms = (userId: string, message: IndexedMessage) =>
+  Promise.all(
+    tokenize(message.text).map((term) => deleteItem('searchIndex', `${termPrefix(userId, term)}:${message.id}`))
+  );
+
+/** Adds a decrypted message to the index, replacing an earlier revision */
+export const indexMessage = async (userId: string, message: IndexedMessage) => {
+  const existing = await getItem<IndexedMessage>('searchIndex', messageKey(userId, message.id));
+  if (existing?.text === message.text) return;
+  if (existing) await removeTerms(userId, existing);
+
+  const entries: Record<string, string> = {};
+  tokenize(message.text).forEach((term) => {
+    entries[`${termPrefix(userId, term)}:${message.id}`] = message.id;
+  });
+  await setEntries('searchIndex', { ...entries, [messageKey(userId, message.id)]: message });
+};
+
+export const removeFromIndex = async (userId: string, messageId: string) => {
+  const existing = await getItem<IndexedMessage>('searchIndex', messageKey(userId, messageId));
+  if (!existing) return;
+
+  await removeTerms(userId, existing);
+  await deleteItem('searchIndex', messageKey(userId, messageId));
+};
+
+/** Indexed messages containing a word starting with every word of the query */
+export const searchIndex = async (userId: string, query: string, chatId?: string) => {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  let matchingIds: Set<string> | null = null;
+  for (const term of terms) {
+    const postings = await getEntries<string>('searchIndex', termPrefix(userId, term));
+    const ids = new Set(Object.values(postings));
+    matchingIds = matchingIds ? new Set([...matchingIds].filter((id) => ids.has(id))) : ids;
+    if (matchingIds.size === 0) return [];
+  }
+
+  const messages = await Promise.all(
+    [...(matchingIds ?? [])].map((id) => getItem<IndexedMessage>('searchIndex', messageKey(userId, id)))
+  );
+  return messages.filter(
+    (message): message is IndexedMessage => !!message && (!chatId || message.chatId === chatId)
+  );
+};
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IdentityKeyPair, exportPublicKey, fromBase64, randomBytes, signData } from '@/lib/crypto';
+import { DeviceBundle } from '@/lib/devices';
+import { generateDhKeyPair } from '@/lib/ratchet';
+import { OpenedEnvelopeCache, openFromDevice, sealForDevice } from '@/lib/sessions';
+
+const { identities, localStore, supabase } = vi.hoisted(() => ({
+  identities: new Map<string, IdentityKeyPair>(),
+  localStore: new Map<string, unknown>(),
+  supabase: { rpc: vi.fn() },
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase }));
+
+vi.mock('@/lib/crypto', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/crypto')>()),
+  ensureIdentityKey: async (userId: string) => identities.get(userId),
+}));
+
+// IndexedDB as a plain map keyed by store and key
+vi.mock('@/lib/localDb', () => ({
+  getItem: async (store: string, key: string) => localStore.get(`${store}/${key}`),
+  setItem: async (store: string, key: string, value: unknown) => {
+    localStore.set(`${store}/${key}`, structuredClone(value));
+  },
+  deleteItem: async (store: string, key: string) => {
+    localStore.delete(`${store}/${key}`);
+  },
+}));
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+const ECDSA_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+const createIdentity = async (): Promise<IdentityKeyPair> => {
+  const pair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']);
+  const signing = await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+  return {
+    publicKey: pair.publicKey,
+    privateKey: pair.privateKey,
+    publicKeyBase64: await exportPublicKey(pair.publicKey),
+    signingPrivateKey: signing.privateKey,
+    signingPublicKeyBase64: await exportPublicKey(signing.publicKey),
+  };
+};
+
+/** Sets up a user with one device: its identity, local prekeys and published bundle */
+const createDevice = async (userId: string) => {
+  const identity = await createIdentity();
+  identities.set(userId, identity);
+
+  const signedPrekey = await generateDhKeyPair();
+  const oneTimePrekey = await generateDhKeyPair();
+  localStore.set(`prekeys/${userId}:spk:1`, signedPrekey);
+  localStore.set(`prekeys/${userId}:opk:7`, oneTimePrekey);
+
+  const bundle: DeviceBundle = {
+    id: `${userId}-device`,
+    user_id: userId,
+    identity_key: identity.publicKeyBase64,
+    signing_key: identity.signingPublicKeyBase64,
+    signed_prekey_id: 1,
+    signed_prekey: signedPrekey.publicKey,
+    signed_prekey_signature: await signData(identity.signingPrivateKey, fromBase64(signedPrekey.publicKey)),
+  };
+  return { bundle, oneTimePrekey: { key_id: 7, public_key: oneTimePrekey.publicKey } };
+};
+
+describe('sessions', () => {
+  beforeEach(() => {
+    identities.clear();
+    localStore.clear();
+    supabase.rpc.mockReset();
+    vi.stubGlobal('navigator', {});
+  });
+
+  it('sets up a session between two devices with X3DH', async () => {
+    const alice = await createDevice('alice');
+    const bob = await createDevice('bob');
+    supabase.rpc.mockResolvedValueOnce({ data: [bob.oneTimePrekey], error: null });
+
+    const first = await sealForDevice('alice', bob.bundle, encoder.encode('hello bob'));
+    expect(supabase.rpc).toHaveBeenCalledWith('claim_one_time_prekey', { target_device_id: bob.bundle.id });
+    expect(first.header.init).toMatchObject({ spk: 1, opk: 7, ik: alice.bundle.identity_key });
+
+    const opened = await openFromDevice('bob', alice.bundle.id, first);
+    expect(decoder.decode(opened)).toBe('hello bob');
+    // The one-time prekey can't be used again
+    expect(localStore.has('prekeys/bob:opk:7')).toBe(false);
+
+    // Bob answers over the session he just accepted, without another handshake
+    const reply = await sealForDevice('bob', alice.bundle, encoder.encode('hi alice'));
+    expect(reply.header.init).toBeUndefined();
+    expect(decoder.decode(await openFromDevice('alice', bob.bundle.id, reply))).toBe('hi alice');
+
+    // Once Bob has answered, Alice stops sending her handshake along
+    const next = await sealForDevice('alice', bob.bundle, encoder.encode('again'));
+    expect(next.header.init).toBeUndefined();
+    expect(decoder.decode(await openFromDevice('bob', alice.bundle.id, next))).toBe('again');
+    expect(supabase.rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens an envelope once when it is read concurrently', async () => {
+    const alice = await createDevice('alice');
+    const bob = await createDevice('bob');
+    supabase.rpc.mockResolvedValueOnce({ data: [], error: null });
+
+    const contentKey = randomBytes(32);
+    const envelope = await sealForDevice('alice', bob.bundle, contentKey);
+
+    const opened = new Map<string, Uint8Array>();
+    const cache: OpenedEnvelopeCache = {
+      read: async () => opened.get('message') ?? null,
+      write: async (plaintext) => {
+        opened.set('message', plaintext);
+      },
+    };
+
+    const results = await Promise.all([
+      openFromDevice('bob', alice.bundle.id, envelope, cache),
+      openFromDevice('bob', alice.bundle.id, envelope, cache),
+    ]);
+    expect(results).toEqual([contentKey, contentKey]);
+  });
+});
@@ -0,0 +1,359 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ensureIdentityKey, fromBase64, randomBytes, signData, verifySignature } from '@/lib/crypto';
+import { DeviceBundle, describeThisDevice, getOrCreateLocalDeviceId } from '@/lib/devices';
+import { deleteItem, getItem, setItem } from '@/lib/localDb';
+import {
+  RatchetHeader,
+  RatchetState,
+  SerializedKeyPair,
+  concatBytes,
+  dh,
+  generateDhKeyPair,
+  hkdf,
+  initReceiverState,
+  initSenderState,
+  ratchetDecrypt,
+  ratchetEncrypt,
+} from '@/lib/ratchet';
+
+// X3DH session setup (https://signal.org/docs/specifications/x3dh/) on top of
+// the prekey bundles each device publishes, plus the pairwise Double Ratchet
+// sessions between devices that seal every message.
+
+const X3DH_INFO = 'SecureConnect X3DH';
+const SIGNED_PREKEY_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+const MIN_ONE_TIME_PREKEYS = 10;
+const ONE_TIME_PREKEY_BATCH = 25;
+/** Sessions kept per peer so simultaneous session setups can converge */
+const MAX_SESSIONS = 4;
+
+export interface InitHeader {
+  /** Initiator's identity key */
+  ik: string;
+  /** Initiator's ephemeral key */
+  ek: string;
+  /** Responder's signed prekey id */
+  spk: number;
+  /** Responder's one-time prekey id, if one was available */
+  opk: number | null;
+}
+
+export interface EnvelopeHeader extends RatchetHeader {
+  init?: InitHeader;
+}
+
+export interface SealedEnvelope {
+  header: EnvelopeHeader;
+  sealedKey: string;
+}
+
+interface Session {
+  ratchet: RatchetState;
+  remoteIdentityKey: string;
+  /** Ephemeral key of the X3DH handshake that created this session */
+  initEphemeral: string;
+  /** Sent along with every message until the other side has answered */
+  pendingInit?: InitHeader;
+}
+
+interface SessionRecord {
+  sessions: Session[];
+}
+
+/**
+ * Where an opened envelope's plaintext is kept. It is read again and written
+ * while the session lock is held, since a ratchet step can't be repeated.
+ */
+export interface OpenedEnvelopeCache {
+  read: () => Promise<Uint8Array | null>;
+  write: (plaintext: Uint8Array) => Promise<void>;
+}
+
+interface SignedPrekeyInfo {
+  id: number;
+  createdAt: number;
+}
+
+export class MissingPrekeyBundleError extends Error {
+  constructor() {
+    super('This contact has not published encryption keys yet');
+    this.name = 'MissingPrekeyBundleError';
+  }
+}
+
+const chatSessionKey = (userId: string, chatId: string) => `${userId}:${chatId}`;
+const deviceSessionKey = (userId: string, deviceId: string) => `${userId}:device:${deviceId}`;
+const prekeyKey = (userId: string, kind: 'spk' | 'opk', id: number) => `${userId}:${kind}:${id}`;
+const currentSignedPrekeyKey = (userId: string) => `${userId}:spk:current`;
+
+const randomKeyId = () => new DataView(randomBytes(4).buffer).getUint32(0) >>> 1;
+
+/**
+ * Serialises work on one peer's sessions, across tabs where Web Locks are
+ * available, so concurrent decryptions never race on the ratchet state.
+ */
+const locks = new Map<string, Promise<unknown>>();
+const withSessionLock = <T>(name: string, task: () => Promise<T>): Promise<T> => {
+  if (navigator.locks) {
+    return navigator.locks.request(`ratchet:${name}`, task);
+  }
+  const previous = locks.get(name) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(name, next);
+  return next;
+};
+
+const deriveSharedSecret = (...dhOutputs: Uint8Array[]) =>
+  hkdf(concatBytes(new Uint8Array(32).fill(0xff), ...dhOutputs), new Uint8Array(32), X3DH_INFO, 32);
+
+const associatedData = (initiatorIdentityKey: string, responderIdentityKey: string) =>
+  concatBytes(fromBase64(initiatorIdentityKey), fromBase64(responderIdentityKey));
+
+const prekeyRequests = new Map<string, Promise<void>>();
+
+/**
+ * Registers this browser as one of the user's devices, publishing its signed
+ * prekey bundle and keeping its pool of one-time prekeys topped up. Private
+ * halves stay in IndexedDB.
+ */
+export const ensurePrekeys = (userId: string) => {
+  let request = prekeyRequests.get(userId);
+  if (!request) {
+    request = (async () => {
+      const identity = await ensureIdentityKey(userId);
+      const deviceId = getOrCreateLocalDeviceId(userId);
+
+      const { data: device, error } = await supabase
+        .from('devices')
+        .select('name, identity_key, signed_prekey_id, revoked_at')
+        .eq('id', deviceId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (device?.revoked_at) {
+        throw new Error('This device has been revoked');
+      }
+
+      const current = await getItem<SignedPrekeyInfo>('prekeys', currentSignedPrekeyKey(userId));
+      const currentPair = current && (await getItem<SerializedKeyPair>('prekeys', prekeyKey(userId, 'spk', current.id)));
+      const needsSignedPrekey =
+        !current ||
+        !currentPair ||
+        device?.identity_key !== identity.publicKeyBase64 ||
+        device?.signed_prekey_id !== current.id ||
+        Date.now() - current.createdAt > SIGNED_PREKEY_MAX_AGE;
+
+      if (needsSignedPrekey) {
+        const id = randomKeyId();
+        const pair = await generateDhKeyPair();
+        await setItem('prekeys', prekeyKey(userId, 'spk', id), pair);
+
+        const { error: upsertError } = await supabase.from('devices').upsert({
+          id: deviceId,
+          user_id: userId,
+          name: device?.name ?? describeThisDevice(),
+          identity_key: identity.publicKeyBase64,
+          signing_key: identity.signingPublicKeyBase64,
+          signed_prekey_id: id,
+          signed_prekey: pair.publicKey,
+          signed_prekey_signature: await signData(identity.signingPrivateKey, fromBase64(pair.publicKey)),
+          updated_at: new Date().toISOString(),
+        });
+
+        if (upsertError) throw upsertError;
+        await setItem<SignedPrekeyInfo>('prekeys', currentSignedPrekeyKey(userId), { id, createdAt: Date.now() });
+      }
+
+      const { count, error: countError } = await supabase
+        .from('one_time_prekeys')
+        .select('id', { count: 'exact', head: true })
+        .eq('device_id', deviceId);
+
+      if (countError) throw countError;
+
+      if ((count ?? 0) < MIN_ONE_TIME_PREKEYS) {
+        const rows = [];
+        for (let i = 0; i < ONE_TIME_PREKEY_BATCH; i++) {
+          const id = randomKeyId();
+          const pair = await generateDhKeyPair();
+          await setItem('prekeys', prekeyKey(userId, 'opk', id), pair);
+          rows.push({ user_id: userId, device_id: deviceId, key_id: id, public_key: pair.publicKey });
+        }
+
+        const { error: insertError } = await supabase.from('one_time_prekeys').insert(rows);
+        if (insertError) throw insertError;
+      }
+    })();
+    request.catch(() => prekeyRequests.delete(userId));
+    prekeyRequests.set(userId, request);
+  }
+  return request;
+};
+
+/** Runs X3DH as the initiator against one of the other user's devices */
+const initiateSession = async (userId: string, bundle: DeviceBundle): Promise<Session> => {
+  const identity = await ensureIdentityKey(userId);
+
+  const validSignature = await verifySignature(
+    bundle.signing_key,
+    bundle.signed_prekey_signature,
+    fromBase64(bundle.signed_prekey)
+  );
+  if (!validSignature) {
+    throw new Error('Signed prekey signature is invalid');
+  }
+
+  const { data: oneTimePrekeys, error: claimError } = await supabase.rpc('claim_one_time_prekey', {
+    target_device_id: bundle.id,
+  });
+
+  if (claimError) throw claimError;
+  const oneTimePrekey = oneTimePrekeys?.[0];
+
+  const ephemeral = await generateDhKeyPair();
+  const dhOutputs = [
+    await dh(identity.privateKey, bundle.signed_prekey),
+    await dh(ephemeral.privateKey, bundle.identity_key),
+    await dh(ephemeral.privateKey, bundle.signed_prekey),
+  ];
+  if (oneTimePrekey) {
+    dhOutputs.push(await dh(ephemeral.privateKey, oneTimePrekey.public_key));
+  }
+
+  const ratchet = await initSenderState(
+    await deriveSharedSecret(...dhOutputs),
+    bundle.signed_prekey,
+    associatedData(identity.publicKeyBase64, bundle.identity_key)
+  );
+
+  return {
+    ratchet,
+    remoteIdentityKey: bundle.identity_key,
+    initEphemeral: ephemeral.publicKey,
+    pendingInit: {
+      ik: identity.publicKeyBase64,
+      ek: ephemeral.publicKey,
+      spk: bundle.signed_prekey_id,
+      opk: oneTimePrekey?.key_id ?? null,
+    },
+  };
+};
+
+/** Runs X3DH as the responder for a session the other side started */
+const acceptSession = async (userId: string, init: InitHeader): Promise<Session> => {
+  const identity = await ensureIdentityKey(userId);
+
+  const signedPrekey = await getItem<SerializedKeyPair>('prekeys', prekeyKey(userId, 'spk', init.spk));
+  if (!signedPrekey) {
+    throw new Error('Signed prekey used by this session is not available on this device');
+  }
+
+  const dhOutputs = [
+    await dh(signedPrekey.privateKey, init.ik),
+    await dh(identity.privateKey, init.ek),
+    await dh(signedPrekey.privateKey, init.ek),
+  ];
+  if (init.opk !== null) {
+    const oneTimePrekey = await getItem<SerializedKeyPair>('prekeys', prekeyKey(userId, 'opk', init.opk));
+    if (!oneTimePrekey) {
+      throw new Error('One-time prekey used by this session was already consumed');
+    }
+    dhOutputs.push(await dh(oneTimePrekey.privateKey, init.ek));
+  }
+
+  return {
+    ratchet: initReceiverState(
+      await deriveSharedSecret(...dhOutputs),
+      signedPrekey,
+      associatedData(init.ik, identity.publicKeyBase64)
+    ),
+    remoteIdentityKey: init.ik,
+    initEphemeral: init.ek,
+  };
+};
+
+const loadRecord = async (name: string) =>
+  (await getItem<SessionRecord>('sessions', name)) ?? { sessions: [] };
+
+const saveRecord = (name: string, record: SessionRecord) =>
+  setItem('sessions', name, { sessions: record.sessions.slice(0, MAX_SESSIONS) });
+
+/**
+ * Seals a message key for one device, starting a new session when there is
+ * none or when the device's identity key has changed.
+ */
+export const sealForDevice = (userId: string, bundle: DeviceBundle, plaintext: Uint8Array) => {
+  const name = deviceSessionKey(userId, bundle.id);
+  return withSessionLock(name, async (): Promise<SealedEnvelope> => {
+    const record = await loadRecord(name);
+    let [session] = record.sessions;
+
+    if (!session || session.remoteIdentityKey !== bundle.identity_key) {
+      session = await initiateSession(userId, bundle);
+      record.sessions.unshift(session);
+    }
+
+    const { state, header, ciphertext } = await ratchetEncrypt(session.ratchet, plaintext);
+    record.sessions[0] = { ...session, ratchet: state };
+    await saveRecord(name, record);
+
+    return {
+      header: session.pendingInit ? { ...header, init: session.pendingInit } : header,
+      sealedKey: ciphertext,
+    };
+  });
+};
+
+/**
+ * Opens an envelope using the sessions stored under the given name. Every
+ * known session is tried in turn and the one that succeeds becomes current.
+ */
+const openEnvelope = (userId: string, name: string, envelope: SealedEnvelope, cache?: OpenedEnvelopeCache) =>
+  withSessionLock(name, async () => {
+    // Someone else may have opened it while we waited for the lock
+    const cached = await cache?.read();
+    if (cached) return cached;
+
+    const record = await loadRecord(name);
+    const { init, ...header } = envelope.header;
+    const candidates = [...record.sessions];
+
+    let accepted: Session | null = null;
+    if (init && !candidates.some((session) => session.initEphemeral === init.ek)) {
+      accepted = await acceptSession(userId, init);
+      candidates.unshift(accepted);
+    }
+
+    for (const session of candidates) {
+      try {
+        const { state, plaintext } = await ratchetDecrypt(session.ratchet, header, envelope.sealedKey);
+        // The other side has answered, so they no longer need our handshake
+        const updated: Session = { ...session, ratchet: state, pendingInit: undefined };
+        await saveRecord(name, {
+          sessions: [updated, ...candidates.filter((candidate) => candidate !== session)],
+        });
+
+        if (session === accepted && init.opk !== null) {
+          await deleteItem('prekeys', prekeyKey(userId, 'opk', init.opk));
+        }
+        await cache?.write(plaintext);
+        return plaintext;
+      } catch {
+        // Not this session; try the next one
+      }
+    }
+
+    throw new Error('No session could decrypt this message');
+  });
+
+/** Opens an envelope sealed for this device by one of the sender's devices */
+export const openFromDevice = (
+  userId: string,
+  senderDeviceId: string,
+  envelope: SealedEnvelope,
+  cache?: OpenedEnvelopeCache
+) => openEnvelope(userId, deviceSessionKey(userId, senderDeviceId), envelope, cache);
+
+/** Opens an envelope from a per-chat session, used before multi-device support */
+export const openFromChat = (userId: string, chatId: string, envelope: SealedEnvelope, cache?: OpenedEnvelopeCache) =>
+  openEnvelope(userId, chatSessionKey(userId, chatId), envelope, cache);
@@ -0,0 +1,31 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Suspended accounts can sign in, but the database refuses every write they
+// make, so the app shows them why instead of the usual pages.
+
+export interface Suspension {
+  suspended_at: string;
+  reason: string | null;
+}
+
+/** The user's suspension, or null if their account is in good standing */
+export const fetchSuspension = async (userId: string): Promise<Suspension | null> => {
+  const { data, error } = await supabase
+    .from('account_suspensions')
+    .select('suspended_at, suspension_reason')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { suspended_at: data.suspended_at, reason: data.suspension_reason } : null;
+};
+
+/** Suspends the account, or lifts its suspension when reason is null */
+export const setUserSuspension = async (userId: string, reason: string | null) => {
+  const { error } = await supabase.rpc('set_user_suspension', {
+    target_user_id: userId,
+    reason: reason ?? undefined,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,63 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type VerificationStatus = 'unverified' | 'verified' | 'changed';
+
+/**
+ * A contact is verified while their identity key still matches the one the
+ * user compared safety numbers for. A different key means it has changed.
+ */
+export const getVerificationStatus = (
+  verifiedKey: string | null | undefined,
+  currentKey: string | null | undefined
+): VerificationStatus => {
+  if (!verifiedKey) return 'unverified';
+  return verifiedKey === currentKey ? 'verified' : 'changed';
+};
+
+export const fetchVerifiedKeys = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('contact_verifications')
+    .select('contact_id, verified_key')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  const verifiedKeys: Record<string, string> = {};
+  data?.forEach((verification) => {
+    verifiedKeys[verification.contact_id] = verification.verified_key;
+  });
+  return verifiedKeys;
+};
+
+export const fetchVerifiedKey = async (userId: string, contactId: string) => {
+  const { data, error } = await supabase
+    .from('contact_verifications')
+    .select('verified_key')
+    .eq('user_id', userId)
+    .eq('contact_id', contactId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.verified_key ?? null;
+};
+
+export const markContactVerified = async (userId: string, contactId: string, identityKey: string) => {
+  const { error } = await supabase.from('contact_verifications').upsert({
+    user_id: userId,
+    contact_id: contactId,
+    verified_key: identityKey,
+    verified_at: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+};
+
+export const clearContactVerification = async (userId: string, contactId: string) => {
+  const { error } = await supabase
+    .from('contact_verifications')
+    .delete()
+    .eq('user_id', userId)
+    .eq('contact_id', contactId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import MainLayout from '@/components/MainLayout';
+import { ADMIN_PAGE_SIZE, AdminUser, fetchAdminUsers } from '@/lib/admin';
+import { setUserSuspension } from '@/lib/suspension';
+
+/** Account management: find users and suspend or reinstate them */
+const Admin = () => {
+  const { user } = useAuth();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(0);
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [suspending, setSuspending] = useState<AdminUser | null>(null);
+  const [reason, setReason] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(total / ADMIN_PAGE_SIZE));
+
+  // Search once typing pauses, starting again from the first page
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setQuery(searchQuery);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [query, page]);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchAdminUsers(query, page);
+      setUsers(result.users);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast.error('Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSuspension = async (target: AdminUser, suspensionReason: string | null) => {
+    setBusyId(target.id);
+    try {
+      await setUserSuspension(target.id, suspensionReason);
+      setUsers((current) =>
+        current.map((u) =>
+          u.id === target.id
+            ? {
+                ...u,
+                suspended_at: suspensionReason ? new Date().toISOString() : null,
+                suspension_reason: suspensionReason,
+              }
+            : u
+        )
+      );
+      toast.success(suspensionReason ? `${target.full_name} was suspended` : `${target.full_name} was reinstated`);
+      return true;
+    } catch (error) {
+      console.error('Error updating suspension:', error);
+      toast.error('Failed to update suspension');
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openSuspendDialog = (target: AdminUser) => {
+    setReason('');
+    setSuspending(target);
+  };
+
+  const handleSuspend = async () => {
+    if (!suspending || !reason.trim()) return;
+
+    if (await updateSuspension(suspending, reason.trim())) {
+      setSuspending(null);
+    }
+  };
+
+  // A window of page links around the current page
+  const pageLinks = Array.from({ length: pageCount }, (_, index) => index).filter(
+    (index) => Math.abs(index - page) <= 2
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Admin</h1>
+          <p className="text-muted-foreground">
+            {total} {total === 1 ? 'account' : 'accounts'}
+            {query.trim() && ` matching "${query.trim()}"`}
+          </p>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
+          <Input
+            placeholder="Search by name or username..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead className="hidden md:table-cell">Joined</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center">
+                    <Loader2 className="w-5 h-5 mx-auto animate-spin text-muted-foreground" />
+                  </TableCell>
+                </TableRow>
+              ) : users.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No accounts found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                users.map((account) => (
+                  <TableRow key={account.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-9 w-9">
+                          <AvatarImage src={account.avatar_url || undefined} />
+                          <AvatarFallback className="bg-gradient-primary text-primary-foreground text-xs">
+                            {account.full_name.substring(0, 2).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{account.full_name}</p>
+                          <p className="text-sm text-muted-foreground truncate">@{account.username}</p>
+                        </div>
+                        {account.roles.map((role) => (
+                          <Badge key={role} variant="outline" className="capitalize">
+                            {role}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      {new Date(account.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      {account.suspended_at ? (
+                        <Badge variant="destructive" title={account.suspension_reason ?? undefined}>
+                          Suspended
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {account.suspended_at ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => updateSuspension(account, null)}
+                          disabled={busyId === account.id}
+                        >
+                          Unsuspend
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => openSuspendDialog(account)}
+                          disabled={account.id === user?.id || account.roles.includes('admin')}
+                        >
+                          Suspend
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        {pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage((current) => Math.max(0, current - 1));
+                  }}
+                  aria-disabled={page === 0}
+                  className={page === 0 ? 'pointer-events-none opacity-50' : undefined}
+                />
+              </PaginationItem>
+              {pageLinks.map((index) => (
+                <PaginationItem key={index}>
+                  <PaginationLink
+                    href="#"
+                    isActive={index === page}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(index);
+                    }}
+                  >
+                    {index + 1}
+                  </PaginationLink>
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage((current) => Math.min(pageCount - 1, current + 1));
+                  }}
+                  aria-disabled={page >= pageCount - 1}
+                  className={page >= pageCount - 1 ? 'pointer-events-none opacity-50' : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+
+      <Dialog open={!!suspending} onOpenChange={(open) => !open && setSuspending(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Suspend {suspending?.full_name}</DialogTitle>
+            <DialogDescription>
+              They can still sign in, but can't message anyone, follow people or change their profile until the
+              suspension is lifted. They will see the reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspension-reason">Reason</Label>
+            <Input
+              id="suspension-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSuspending(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={handleSuspend}
+              disabled={!reason.trim() || busyId === suspending?.id}
+            >
+              {busyId === suspending?.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Suspend
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+};
+
+export default Admin;
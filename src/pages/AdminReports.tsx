@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Flag, Loader2, Lock, Paperclip } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import MainLayout from '@/components/MainLayout';
+import {
+  REPORT_STATUSES,
+  Report,
+  ReportStatus,
+  fetchReports,
+  getReasonLabel,
+  updateReportStatus,
+} from '@/lib/reports';
+import { setUserSuspension } from '@/lib/suspension';
+
+/** The moderation queue: triage reports, close them and suspend accounts */
+const AdminReports = () => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadReports();
+  }, [status]);
+
+  const loadReports = async () => {
+    setLoading(true);
+    try {
+      setReports(await fetchReports(status));
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      toast.error('Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (report: Report, newStatus: ReportStatus) => {
+    setBusyId(report.id);
+    try {
+      await updateReportStatus(user!.id, report.id, newStatus, notes[report.id]);
+      setReports((current) => current.filter((r) => r.id !== report.id));
+      toast.success(`Report marked as ${newStatus}`);
+    } catch (error) {
+      console.error('Error updating report:', error);
+      toast.error('Failed to update report');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSuspension = async (report: Report) => {
+    if (!report.reported) return;
+
+    const suspend = !report.reported.suspended_at;
+    setBusyId(report.id);
+    try {
+      await setUserSuspension(report.reported.id, suspend ? getReasonLabel(report.reason) : null);
+      // Every report about the same account shows the new state
+      const suspendedAt = suspend ? new Date().toISOString() : null;
+      setReports((current) =>
+        current.map((r) =>
+          r.reported?.id === report.reported!.id ? { ...r, reported: { ...r.reported, suspended_at: suspendedAt } } : r
+        )
+      );
+      toast.success(suspend ? `${report.reported.full_name} was suspended` : 'Suspension lifted');
+    } catch (error) {
+      console.error('Error updating suspension:', error);
+      toast.error('Failed to update suspension');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Reports</h1>
+          <p className="text-muted-foreground">Review reported accounts and messages</p>
+        </div>
+
+        <Tabs value={status} onValueChange={(value) => setStatus(value as ReportStatus)}>
+          <TabsList className="grid w-full grid-cols-4">
+            {REPORT_STATUSES.map((option) => (
+              <TabsTrigger key={option.value} value={option.value}>
+                {option.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : reports.length === 0 ? (
+          <Card className="p-12 text-center">
+            <Flag className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">No reports here</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {reports.map((report) => {
+              const isOpen = report.status === 'open' || report.status === 'reviewing';
+              const busy = busyId === report.id;
+
+              return (
+                <Card key={report.id} className="p-6 space-y-4">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="destructive">{getReasonLabel(report.reason)}</Badge>
+                      <span className="text-sm text-muted-foreground">
+                        {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                        {report.reporter && ` by @${report.reporter.username}`}
+                      </span>
+                    </div>
+                    {report.reported?.suspended_at && <Badge variant="secondary">Suspended</Badge>}
+                  </div>
+
+                  {report.reported && (
+                    <div className="flex items-center gap-3">
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={report.reported.avatar_url || undefined} />
+                        <AvatarFallback className="bg-gradient-primary text-primary-foreground">
+                          {report.reported.full_name.substring(0, 2).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <p className="font-semibold">{report.reported.full_name}</p>
+                        <p className="text-sm text-muted-foreground">@{report.reported.username}</p>
+                      </div>
+                    </div>
+                  )}
+
+                  {report.details && <p className="text-sm whitespace-pre-wrap">{report.details}</p>}
+
+                  {report.message_text ? (
+                    <blockquote className="border-l-2 border-destructive pl-3 text-sm break-words">
+                      {report.message_text}
+                    </blockquote>
+                  ) : report.message_id ? (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Lock className="w-4 h-4" />
+                      A message was reported, but its text wasn't shared.
+                    </p>
+                  ) : null}
+                  {report.attachment_path && (
+                    <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Paperclip className="w-4 h-4" />
+                      The message had an encrypted attachment.
+                    </p>
+                  )}
+
+                  {isOpen ? (
+                    <div className="space-y-3">
+                      <Input
+                        placeholder="Note for the record (optional)"
+                        value={notes[report.id] ?? ''}
+                        onChange={(e) => setNotes((current) => ({ ...current, [report.id]: e.target.value }))}
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        {report.status === 'open' && (
+                          <Button variant="outline" onClick={() => handleStatusChange(report, 'reviewing')} disabled={busy}>
+                            Start review
+                          </Button>
+                        )}
+                        <Button onClick={() => handleStatusChange(report, 'resolved')} disabled={busy}>
+                          Resolve
+                        </Button>
+                        <Button variant="outline" onClick={() => handleStatusChange(report, 'dismissed')} disabled={busy}>
+                          Dismiss
+                        </Button>
+                        {report.reported && (
+                          <Button
+                            variant={report.reported.suspended_at ? 'outline' : 'destructive'}
+                            onClick={() => handleSuspension(report)}
+                            disabled={busy}
+                          >
+                            {report.reported.suspended_at ? 'Lift suspension' : 'Suspend account'}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground">
+                      <span>
+                        {report.resolution_note || 'No note'}
+                        {report.resolved_at &&
+                          ` · closed ${formatDistanceToNow(new Date(report.resolved_at), { addSuffix: true })}`}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => handleStatusChange(report, 'open')} disabled={busy}>
+                        Reopen
+                      </Button>
+                    </div>
+                  )}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </MainLayout>
+  );
+};
+
+export default AdminReports;
@@ -1,14 +1,96 @@
-import { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { usePresence } from '@/hooks/usePresence';
+import { useOutbox } from '@/hooks/useOutbox';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card } from '@/components/ui/card';
-import { ArrowLeft, Send, Loader2, Paperclip, Download, FileText, Film, Image as ImageIcon, Video, X, Smile } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  ArrowLeft,
+  Send,
+  Loader2,
+  Paperclip,
+  FileText,
+  X,
+  Smile,
+  Lock,
+  ShieldCheck,
+  ShieldAlert,
+  Timer,
+  Pencil,
+  Trash2,
+  Ban,
+  Reply,
+  Settings,
+  Search,
+  Flag,
+} from 'lucide-react';
 import { toast } from 'sonner';
 import MainLayout from '@/components/MainLayout';
+import AttachmentPreview from '@/components/AttachmentPreview';
+import SafetyNumberDialog from '@/components/SafetyNumberDialog';
+import MessageRevisionsDialog from '@/components/MessageRevisionsDialog';
+import QuotedMessage, { Quote } from '@/components/QuotedMessage';
+import MessageStatusIcon from '@/components/MessageStatusIcon';
+import GroupSettingsDialog from '@/components/GroupSettingsDialog';
+import MessageSearchResults from '@/components/MessageSearchResults';
+import ReportDialog, { ReportTarget } from '@/components/ReportDialog';
+import { AttachmentInfo, deriveChatKey, ensureIdentityKey } from '@/lib/crypto';
+import {
+  ChatCryptoContext,
+  UNDECRYPTABLE_MESSAGE,
+  forgetMessageKey,
+  readMessagePayload,
+} from '@/lib/messageCrypto';
+import { fetchVerifiedKey, getVerificationStatus } from '@/lib/verification';
+import {
+  DISAPPEARING_TIMER_OPTIONS,
+  describeTimerEvent,
+  formatDisappearingTimer,
+  isExpired,
+  readTimerEvent,
+  setDisappearingTimer,
+} from '@/lib/disappearingMessages';
+import { canEditMessage, editMessage } from '@/lib/messageEditing';
+import { fetchMessage, fetchMessagePage, fetchMessagesBetween, fetchReactions } from '@/lib/messagePagination';
+import {
+  ReadReceipt,
+  fetchReadCursor,
+  fetchReadReceipts,
+  getMessageStatus,
+  markChatRead,
+  markMessagesDelivered,
+} from '@/lib/readReceipts';
+import { TYPING_EVENT, TYPING_EXPIRY_MS, TYPING_IDLE_MS, TypingPayload, fetchLastSeen } from '@/lib/presence';
+import {
+  canDeleteForEveryone,
+  deleteMessageForEveryone,
+  deleteMessageForMe,
+  fetchHiddenMessageIds,
+} from '@/lib/messageDeletion';
+import { ChatMemberProfile, GroupMember, canManageGroup, fetchChatMembers } from '@/lib/groups';
+import { MESSAGE_LINK_PARAM } from '@/lib/chatRouting';
+import { MessageSearchHit } from '@/lib/messageSearch';
+import { indexMessage, removeFromIndex } from '@/lib/searchIndex';
+import { SafetyKeys } from '@/lib/safetyNumber';
+import { blockUser, hasBlockWith, hasBlocked, unblockUser } from '@/lib/blocks';
+import { isConnectedWith } from '@/lib/follows';
+import type { Json } from '@/integrations/supabase/types';
 
 interface Message {
   id: string;
@@ -16,6 +98,21 @@ interface Message {
   sender_id: string;
   created_at: string;
   media_url: string | null;
+  ciphertext: string | null;
+  nonce: string | null;
+  key_version: number | null;
+  ratchet_header: Json | null;
+  sealed_key: string | null;
+  sender_device_id: string | null;
+  envelopes: Json | null;
+  expires_at: string | null;
+  kind: string;
+  system_event: Json | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+  /** Decrypted attachment details, when the payload carries a file */
+  attachment?: AttachmentInfo;
 }
 
 interface Reaction {
@@ -31,109 +128,350 @@ interface Profile {
   username: string;
   full_name: string;
   avatar_url: string | null;
+  public_key: string | null;
+  signing_key: string | null;
 }
 
 const Chat = () => {
-  const { userId } = useParams<{ userId: string }>();
+  const { chatId: routeChatId } = useParams<{ chatId: string }>();
+  const [searchParams] = useSearchParams();
+  // Message to open the chat at, from a ?m= link
+  const linkedMessageId = searchParams.get(MESSAGE_LINK_PARAM);
   const { user } = useAuth();
+  const { onlineUserIds, sharePresence } = usePresence();
+  const { entries: outboxEntries, queueMessage, retryMessage, discardMessage } = useOutbox();
   const navigate = useNavigate();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // Whether new messages should scroll into view
+  const nearBottomRef = useRef(true);
+  // Distance from the bottom to restore after an older page is prepended
+  const prependAnchorRef = useRef<number | null>(null);
+  const loadingOlderRef = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [otherUser, setOtherUser] = useState<Profile | null>(null);
+  const [group, setGroup] = useState<{ name: string; avatar_url: string | null } | null>(null);
+  const [members, setMembers] = useState<GroupMember[]>([]);
+  // Everyone whose name may appear in a group, including people who left
+  const [senderProfiles, setSenderProfiles] = useState<Record<string, ChatMemberProfile>>({});
+  const requestedProfilesRef = useRef(new Set<string>());
+  const [showGroupSettings, setShowGroupSettings] = useState(false);
   const [chatId, setChatId] = useState<string | null>(null);
+  const [disappearingSeconds, setDisappearingSeconds] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [cryptoContext, setCryptoContext] = useState<ChatCryptoContext | null>(null);
+  const [ownKeys, setOwnKeys] = useState<SafetyKeys | null>(null);
+  const [verifiedKey, setVerifiedKey] = useState<string | null>(null);
+  // A block either way makes a direct chat read-only; only our own block can be lifted here
+  const [chatBlocked, setChatBlocked] = useState(false);
+  const [blockedByMe, setBlockedByMe] = useState(false);
+  const [connected, setConnected] = useState(true);
+  const [showSafetyNumber, setShowSafetyNumber] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [messageSearchQuery, setMessageSearchQuery] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [newMessage, setNewMessage] = useState('');
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [canChat, setCanChat] = useState(false);
+  const [isMember, setIsMember] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [filePreview, setFilePreview] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
   const [reactions, setReactions] = useState<Record<string, Reaction[]>>({});
   const [showReactionPicker, setShowReactionPicker] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [hiddenMessageIds, setHiddenMessageIds] = useState<Set<string>>(new Set());
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Originals of replies that aren't among the loaded messages; null if gone
+  const [quotedMessages, setQuotedMessages] = useState<Record<string, Message | null>>({});
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const requestedQuotesRef = useRef(new Set<string>());
+  const pendingScrollRef = useRef<string | null>(null);
+  const openedLinkRef = useRef<string | null>(null);
+  const [receipts, setReceipts] = useState<Record<string, ReadReceipt>>({});
+  const [readReceiptsEnabled, setReadReceiptsEnabled] = useState(true);
+  // My read cursor, and the newest incoming message seen but not yet reported
+  const readCursorRef = useRef<string | null>(null);
+  const pendingReadRef = useRef<{ id: string; created_at: string } | null>(null);
+  const readTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const messageChannelRef = useRef<RealtimeChannel | null>(null);
+  const messageCleanupRef = useRef<(() => void) | null>(null);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const [lastSeenAt, setLastSeenAt] = useState<string | null>(null);
+  const typingTimeoutsRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const typingStopRef = useRef<ReturnType<typeof setTimeout>>();
+  // When typing was last announced; 0 while not typing
+  const typingSentAtRef = useRef(0);
+
+  // Hiding your own status also hides everyone else's
+  const otherUserId = otherUser?.id;
+  const isOtherOnline = !!sharePresence && !!otherUserId && onlineUserIds.has(otherUserId);
+  const myRole = members.find((member) => member.id === user?.id)?.role;
+  // Whose receipts decide the ticks on my messages
+  const recipientIds = group ? members.map((member) => member.id).filter((id) => id !== user?.id) : [otherUserId!];
+  // Direct chats stay readable once the connection ends, but take no new messages
+  const canChat = isMember && connected && !chatBlocked;
 
   useEffect(() => {
-    if (user && userId) {
+    if (user && routeChatId) {
+      resetChat();
       initializeChat();
     }
-  }, [user, userId]);
+  }, [user, routeChatId]);
 
   useEffect(() => {
-    if (chatId) {
-      subscribeToMessages();
-      loadReactions();
-      subscribeToReactions();
+    if (!chatId) return;
+
+    // Channels are shared by topic, so each one is removed before the chat
+    // is left or opened again
+    let active = true;
+    const cleanups = [subscribeToReactions(), subscribeToReadReceipts()];
+    loadReadReceipts();
+    if (group) {
+      cleanups.push(subscribeToGroup());
     }
+    subscribeToMessages().then((cleanup) => {
+      if (active) {
+        messageCleanupRef.current = cleanup;
+      } else {
+        cleanup();
+      }
+    });
+
+    return () => {
+      active = false;
+      cleanups.forEach((cleanup) => cleanup());
+      messageCleanupRef.current?.();
+      messageCleanupRef.current = null;
+    };
   }, [chatId]);
 
   useEffect(() => {
-    scrollToBottom();
+    if (!chatId || !otherUserId) return;
+    return subscribeToConnection(otherUserId);
+  }, [chatId, otherUserId]);
+
+  useLayoutEffect(() => {
+    // Jumping to an older original loads more messages; scroll there instead
+    if (pendingScrollRef.current) {
+      scrollToLoadedMessage(pendingScrollRef.current);
+      pendingScrollRef.current = null;
+      return;
+    }
+
+    // Keep the same messages in view when an older page is added above them
+    const container = scrollContainerRef.current;
+    if (prependAnchorRef.current !== null && container) {
+      container.scrollTop = container.scrollHeight - prependAnchorRef.current;
+      prependAnchorRef.current = null;
+      return;
+    }
+
+    if (nearBottomRef.current) {
+      scrollToBottom();
+    }
   }, [messages]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  // Newly queued messages show before their row arrives
+  useLayoutEffect(() => {
+    if (nearBottomRef.current) {
+      scrollToBottom();
+    }
+  }, [outboxEntries.length]);
 
-  const initializeChat = async () => {
-    try {
-      // Get other user's profile
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', userId)
-        .single();
+  useEffect(() => {
+    const loadedIds = new Set(messages.map((message) => message.id));
+    const missingIds = messages
+      .map((message) => message.reply_to_id)
+      .filter((id): id is string => !!id && !loadedIds.has(id) && !requestedQuotesRef.current.has(id));
+
+    if (missingIds.length > 0) {
+      loadQuotedMessages([...new Set(missingIds)]);
+    }
+  }, [messages]);
 
-      if (profileError) throw profileError;
-      setOtherUser(profile);
+  useEffect(() => {
+    // Open ?m= links at their message once the latest page is in
+    if (!linkedMessageId || messages.length === 0 || openedLinkRef.current === linkedMessageId) return;
 
-      // Check if users are connected (bidirectional follow check)
-      const { data: followData, error: followError } = await supabase
-        .from('follows')
-        .select('status')
-        .or(`and(follower_id.eq.${user?.id},following_id.eq.${userId}),and(follower_id.eq.${userId},following_id.eq.${user?.id})`)
-        .eq('status', 'accepted');
+    openedLinkRef.current = linkedMessageId;
+    nearBottomRef.current = false;
+    scrollToMessage(linkedMessageId);
+  }, [messages, linkedMessageId]);
 
-      if (followError && followError.code !== 'PGRST116') {
-        console.error('Follow check error:', followError);
-      }
+  useEffect(() => {
+    if (!group) return;
 
-      const isConnected = followData && followData.length > 0;
-      setCanChat(isConnected);
+    const unknownIds = messages
+      .map((message) => message.sender_id)
+      .filter((id) => id !== user?.id && !senderProfiles[id] && !requestedProfilesRef.current.has(id));
 
-      if (!isConnected) {
-        toast.error('You need to be connected to chat with this user');
-        setLoading(false);
-        return;
-      }
+    if (unknownIds.length > 0) {
+      loadSenderProfiles([...new Set(unknownIds)]);
+    }
+  }, [messages, group]);
 
-      // Find or create chat
-      const sortedIds = [user?.id, userId].sort();
-      const { data: existingChat, error: chatError } = await supabase
-        .from('chats')
-        .select('id')
-        .eq('user1_id', sortedIds[0])
-        .eq('user2_id', sortedIds[1])
-        .single();
+  useEffect(() => {
+    // Last seen only matters, and only changes, while they are offline
+    if (!otherUserId || isOtherOnline) return;
+
+    fetchLastSeen(otherUserId)
+      .then(setLastSeenAt)
+      .catch((error) => {
+        console.error('Error loading last seen:', error);
+      });
+  }, [otherUserId, isOtherOnline, sharePresence]);
+
+  useEffect(() => {
+    // Incoming messages count as read once they are on screen while the chat
+    // has focus
+    const container = scrollContainerRef.current;
+    if (!container || !chatId) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries
+          .filter((entry) => entry.isIntersecting)
+          .forEach((entry) => {
+            const element = entry.target as HTMLElement;
+            noteMessageSeen(element.dataset.messageId!, element.dataset.createdAt!);
+          });
+      },
+      { root: container, threshold: 0.5 }
+    );
+    container.querySelectorAll('[data-incoming]').forEach((element) => observer.observe(element));
+
+    window.addEventListener('focus', flushReadCursor);
+    document.addEventListener('visibilitychange', flushReadCursor);
+
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('focus', flushReadCursor);
+      document.removeEventListener('visibilitychange', flushReadCursor);
+    };
+  }, [messages, chatId]);
+
+  useEffect(() => {
+    // Re-render when the next message expires so it disappears on time
+    const nextExpiry = Math.min(
+      ...messages
+        .filter((message) => message.expires_at && !isExpired(message, now))
+        .map((message) => new Date(message.expires_at!).getTime())
+    );
+    if (!Number.isFinite(nextExpiry)) return;
+
+    const timeout = setTimeout(() => setNow(Date.now()), nextExpiry - Date.now());
+    return () => clearTimeout(timeout);
+  }, [messages, now]);
+
+  const scrollToBottom = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const scrollToLoadedMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => {
+      setHighlightedMessageId((current) => (current === messageId ? null : current));
+    }, 2000);
+  };
 
-      if (chatError && chatError.code === 'PGRST116') {
-        // Create new chat
-        const { data: newChat, error: createError } = await supabase
-          .from('chats')
-          .insert({
-            user1_id: sortedIds[0],
-            user2_id: sortedIds[1],
-          })
-          .select('id')
-          .single();
-
-        if (createError) throw createError;
-        setChatId(newChat.id);
-      } else if (chatError) {
-        throw chatError;
+  /** The chat's row, or null if it doesn't exist or the user isn't a member */
+  const fetchChat = async () => {
+    const { data, error } = await supabase
+      .from('chats')
+      .select('type, name, avatar_url, user1_id, user2_id, disappearing_seconds')
+      .eq('id', routeChatId!)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  };
+
+  /** Forgets the previous chat, since moving between chats keeps this page mounted */
+  const resetChat = () => {
+    setLoading(true);
+    setChatId(null);
+    setIsMember(false);
+    setOtherUser(null);
+    setGroup(null);
+    setMembers([]);
+    setSenderProfiles({});
+    requestedProfilesRef.current.clear();
+    setShowGroupSettings(false);
+    setDisappearingSeconds(null);
+    setCryptoContext(null);
+    setVerifiedKey(null);
+    setChatBlocked(false);
+    setBlockedByMe(false);
+    setConnected(true);
+    setMessages([]);
+    setHasOlderMessages(false);
+    setReactions({});
+    setEditingMessage(null);
+    setReplyingTo(null);
+    setQuotedMessages({});
+    requestedQuotesRef.current.clear();
+    setReceipts({});
+    readCursorRef.current = null;
+    pendingReadRef.current = null;
+    clearTimeout(readTimeoutRef.current);
+    setTypingUserIds([]);
+    setLastSeenAt(null);
+  };
+
+  const initializeChat = async () => {
+    try {
+      const chat = await fetchChat();
+      setIsMember(!!chat);
+      if (!chat) return;
+
+      const identity = await ensureIdentityKey(user!.id);
+      setOwnKeys({ identityKey: identity.publicKeyBase64, signingKey: identity.signingPublicKeyBase64 });
+      setDisappearingSeconds(chat.disappearing_seconds);
+
+      if (chat.type === 'group') {
+        // Group messages are always sealed per device, so there is no static key
+        setCryptoContext({ userId: user!.id, chatId: routeChatId!, recipients: {}, staticKey: null });
+        await loadGroup(chat);
       } else {
-        setChatId(existingChat.id);
+        const otherUserId = chat.user1_id === user!.id ? chat.user2_id! : chat.user1_id!;
+        // Someone who blocked this user hides their profile, but the history stays
+        const { data: profile, error: profileError } = await supabase
+          .from('profiles')
+          .select('*')
+          .eq('id', otherUserId)
+          .maybeSingle();
+
+        if (profileError) throw profileError;
+        setOtherUser(profile);
+
+        const [blocked, blockedByUser, stillConnected] = await Promise.all([
+          hasBlockWith(otherUserId),
+          hasBlocked(user!.id, otherUserId),
+          isConnectedWith(otherUserId),
+        ]);
+        setChatBlocked(blocked);
+        setBlockedByMe(blockedByUser);
+        setConnected(stillConnected);
+
+        // The static key only opens messages from before ratchet sessions;
+        // without the other user's public key we can show history but not send
+        setVerifiedKey(await fetchVerifiedKey(user!.id, otherUserId));
+        setCryptoContext({
+          userId: user!.id,
+          chatId: routeChatId!,
+          recipients: { [otherUserId]: profile?.public_key ?? null },
+          staticKey: profile?.public_key
+            ? await deriveChatKey(identity.privateKey, profile.public_key, routeChatId!)
+            : null,
+        });
       }
+      setChatId(routeChatId!);
     } catch (error: any) {
       console.error('Error initializing chat:', error);
       toast.error('Failed to load chat');
@@ -142,18 +480,194 @@ const Chat = () => {
     }
   };
 
-  const subscribeToMessages = async () => {
-    // Load existing messages
+  /** Shows a group's current details and members */
+  const loadGroup = async (chat: { name: string | null; avatar_url: string | null }) => {
+    const groupMembers = await fetchChatMembers(routeChatId!);
+
+    setGroup({ name: chat.name!, avatar_url: chat.avatar_url });
+    setMembers(groupMembers);
+    setSenderProfiles((current) => ({
+      ...current,
+      ...Object.fromEntries(groupMembers.map((member) => [member.id, member])),
+    }));
+    setCryptoContext((current) =>
+      current && {
+        ...current,
+        recipients: Object.fromEntries(
+          groupMembers.filter((member) => member.id !== user!.id).map((member) => [member.id, member.public_key])
+        ),
+      }
+    );
+  };
+
+  const refreshGroup = async () => {
+    try {
+      // Members who were removed can no longer see the chat
+      const chat = await fetchChat();
+      if (chat) {
+        await loadGroup(chat);
+      } else {
+        setIsMember(false);
+      }
+    } catch (error) {
+      console.error('Error loading group:', error);
+    }
+  };
+
+  const subscribeToGroup = () => {
+    const channel = supabase
+      .channel(`group:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'chat_members',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        () => refreshGroup()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chats',
+          filter: `id=eq.${chatId}`,
+        },
+        () => refreshGroup()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  };
+
+  /** Keeps canChat current when either of us follows or unfollows elsewhere */
+  const subscribeToConnection = (contactId: string) => {
+    let active = true;
+    const refresh = () => {
+      isConnectedWith(contactId)
+        .then((isConnected) => {
+          if (active) setConnected(isConnected);
+        })
+        .catch((error) => {
+          console.error('Error checking connection:', error);
+        });
+    };
+
+    const channel = supabase
+      .channel(`connection:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'follows',
+          filter: `follower_id=eq.${user!.id}`,
+        },
+        refresh
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'follows',
+          filter: `following_id=eq.${user!.id}`,
+        },
+        refresh
+      )
+      // Deletes can't be filtered and only carry the row's id
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'follows',
+        },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      active = false;
+      supabase.removeChannel(channel);
+    };
+  };
+
+  const loadSenderProfiles = async (ids: string[]) => {
+    ids.forEach((id) => requestedProfilesRef.current.add(id));
+
     const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('chat_id', chatId)
-      .order('created_at', { ascending: true });
+      .from('profiles')
+      .select('id, username, full_name, avatar_url, public_key')
+      .in('id', ids);
 
     if (error) {
+      console.error('Error loading profiles:', error);
+      return;
+    }
+    setSenderProfiles((current) => ({
+      ...current,
+      ...Object.fromEntries((data || []).map((profile) => [profile.id, profile])),
+    }));
+  };
+
+  /** Name of someone else in the chat, if known */
+  const getMemberName = (memberId: string) =>
+    senderProfiles[memberId]?.full_name ?? (memberId === otherUser?.id ? otherUser.full_name : undefined);
+
+  const decryptMessage = async (message: Message): Promise<Message> => {
+    if (message.kind === 'system' || message.deleted_at) return message;
+
+    const payload = await readMessagePayload(cryptoContext, message);
+    // The server can't search encrypted text, so this device indexes it.
+    // Disappearing messages stay out, so their text doesn't outlive them.
+    if (payload && message.key_version && !message.expires_at) {
+      indexMessage(user!.id, {
+        id: message.id,
+        chatId: chatId!,
+        senderId: message.sender_id,
+        text: payload.text,
+        createdAt: message.created_at,
+      }).catch((error) => {
+        console.error('Error indexing message:', error);
+      });
+    }
+
+    return {
+      ...message,
+      content: payload?.text ?? UNDECRYPTABLE_MESSAGE,
+      attachment: payload?.attachment,
+    };
+  };
+
+  const loadReactions = async (messageIds: string[]) => {
+    try {
+      const reactionsByMessage = await fetchReactions(messageIds);
+      setReactions((current) => ({ ...current, ...reactionsByMessage }));
+    } catch (error) {
+      console.error('Error loading reactions:', error);
+    }
+  };
+
+  const subscribeToMessages = async () => {
+    // Load the latest page; older ones are loaded while scrolling up
+    try {
+      const page = await fetchMessagePage(chatId!);
+      setMessages(await Promise.all(page.messages.map(decryptMessage)));
+      setHasOlderMessages(page.hasMore);
+      loadReactions(page.messages.map((message) => message.id));
+    } catch (error) {
       console.error('Error loading messages:', error);
-    } else {
-      setMessages(data || []);
+    }
+
+    try {
+      setHiddenMessageIds(await fetchHiddenMessageIds(user!.id));
+    } catch (hiddenError) {
+      console.error('Error loading deleted messages:', hiddenError);
     }
 
     // Subscribe to new messages
@@ -167,17 +681,270 @@ const Chat = () => {
           table: 'messages',
           filter: `chat_id=eq.${chatId}`,
         },
+        async (payload) => {
+          const message = await decryptMessage(payload.new as Message);
+          if (message.sender_id === user?.id) {
+            nearBottomRef.current = true;
+          } else {
+            setUserTyping(message.sender_id, false);
+          }
+          // Rows loaded in the meantime, e.g. by jumping to a message, are kept once
+          setMessages((current) => (current.some((m) => m.id === message.id) ? current : [...current, message]));
+
+          const timerEvent = readTimerEvent(message);
+          if (timerEvent) {
+            setDisappearingSeconds(timerEvent.seconds);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        async (payload) => {
+          const message = await decryptMessage(payload.new as Message);
+          setMessages((current) => current.map((m) => (m.id === message.id ? message : m)));
+
+          if (message.deleted_at) {
+            forgetMessageKey(user!.id, message.id).catch(() => undefined);
+            removeFromIndex(user!.id, message.id).catch(() => undefined);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered, so ids from other chats are ignored
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+        },
         (payload) => {
-          setMessages((current) => [...current, payload.new as Message]);
+          const deletedId = (payload.old as { id: string }).id;
+          setMessages((current) => current.filter((m) => m.id !== deletedId));
+          removeFromIndex(user!.id, deletedId).catch(() => undefined);
         }
       )
+      .on('broadcast', { event: TYPING_EVENT }, ({ payload }) => {
+        const typing = payload as TypingPayload;
+        if (typing.userId !== user!.id) {
+          setUserTyping(typing.userId, typing.typing);
+        }
+      })
       .subscribe();
+    messageChannelRef.current = channel;
 
     return () => {
+      messageChannelRef.current = null;
       supabase.removeChannel(channel);
     };
   };
 
+  const setUserTyping = (typingUserId: string, typing: boolean) => {
+    clearTimeout(typingTimeoutsRef.current[typingUserId]);
+    setTypingUserIds((current) => {
+      const others = current.filter((id) => id !== typingUserId);
+      return typing ? [...others, typingUserId] : others;
+    });
+    if (typing) {
+      typingTimeoutsRef.current[typingUserId] = setTimeout(() => setUserTyping(typingUserId, false), TYPING_EXPIRY_MS);
+    }
+  };
+
+  const broadcastTyping = (typing: boolean) => {
+    messageChannelRef.current?.send({
+      type: 'broadcast',
+      event: TYPING_EVENT,
+      payload: { userId: user!.id, typing } satisfies TypingPayload,
+    });
+  };
+
+  const stopTyping = () => {
+    clearTimeout(typingStopRef.current);
+    if (!typingSentAtRef.current) return;
+
+    typingSentAtRef.current = 0;
+    broadcastTyping(false);
+  };
+
+  const handleMessageChange = (value: string) => {
+    setNewMessage(value);
+    if (!value) {
+      stopTyping();
+      return;
+    }
+
+    // Announce at most once per idle period, and stop once keystrokes do
+    if (Date.now() - typingSentAtRef.current > TYPING_IDLE_MS) {
+      typingSentAtRef.current = Date.now();
+      broadcastTyping(true);
+    }
+    clearTimeout(typingStopRef.current);
+    typingStopRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  const loadReadReceipts = async () => {
+    try {
+      readCursorRef.current = await fetchReadCursor(chatId!, user!.id);
+      setReceipts(await fetchReadReceipts(chatId!));
+
+      const { data: settings } = await supabase
+        .from('profiles')
+        .select('read_receipts_enabled')
+        .eq('id', user!.id)
+        .single();
+      setReadReceiptsEnabled(settings?.read_receipts_enabled ?? true);
+
+      await markMessagesDelivered(chatId!);
+    } catch (error) {
+      console.error('Error loading read receipts:', error);
+    }
+  };
+
+  const subscribeToReadReceipts = () => {
+    const channel = supabase
+      .channel(`receipts:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'read_receipts',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          const receipt = payload.new as ReadReceipt & { user_id: string };
+          if (receipt.user_id && receipt.user_id !== user?.id) {
+            setReceipts((current) => ({
+              ...current,
+              [receipt.user_id]: { delivered_at: receipt.delivered_at, read_at: receipt.read_at },
+            }));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  };
+
+  const noteMessageSeen = (messageId: string, createdAt: string) => {
+    const cursor = pendingReadRef.current?.created_at ?? readCursorRef.current;
+    if (cursor && new Date(cursor).getTime() >= new Date(createdAt).getTime()) return;
+
+    pendingReadRef.current = { id: messageId, created_at: createdAt };
+    flushReadCursor();
+  };
+
+  const flushReadCursor = () => {
+    if (!pendingReadRef.current || document.visibilityState !== 'visible' || !document.hasFocus()) return;
+
+    // Batch messages that scroll into view together into one update
+    clearTimeout(readTimeoutRef.current);
+    readTimeoutRef.current = setTimeout(async () => {
+      const seen = pendingReadRef.current;
+      if (!seen || !chatId) return;
+
+      pendingReadRef.current = null;
+      try {
+        await markChatRead(chatId, seen.id);
+        readCursorRef.current = seen.created_at;
+      } catch (error) {
+        console.error('Error updating read cursor:', error);
+      }
+    }, 500);
+  };
+
+  const loadOlderMessages = async () => {
+    if (!chatId || loadingOlderRef.current || messages.length === 0) return;
+
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage(chatId, messages[0]);
+      const older = await Promise.all(page.messages.map(decryptMessage));
+
+      const container = scrollContainerRef.current;
+      if (container) {
+        prependAnchorRef.current = container.scrollHeight - container.scrollTop;
+      }
+      setMessages((current) => [...older, ...current]);
+      setHasOlderMessages(page.hasMore);
+      loadReactions(page.messages.map((message) => message.id));
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+      toast.error('Failed to load earlier messages');
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleMessagesScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    nearBottomRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < 150;
+    if (container.scrollTop < 200 && hasOlderMessages) {
+      loadOlderMessages();
+    }
+  };
+
+  const loadQuotedMessages = async (messageIds: string[]) => {
+    messageIds.forEach((id) => requestedQuotesRef.current.add(id));
+
+    const { data, error } = await supabase.from('messages').select('*').in('id', messageIds);
+    if (error) {
+      console.error('Error loading quoted messages:', error);
+      return;
+    }
+
+    const found = await Promise.all((data || []).map(decryptMessage));
+    setQuotedMessages((current) => {
+      const next = { ...current };
+      messageIds.forEach((id) => {
+        next[id] = found.find((message) => message.id === id) ?? null;
+      });
+      return next;
+    });
+  };
+
+  const scrollToMessage = async (messageId: string) => {
+    if (document.getElementById(`message-${messageId}`)) {
+      scrollToLoadedMessage(messageId);
+      return;
+    }
+
+    // The message is older than the loaded ones, so load everything from it
+    // up to the oldest loaded one first
+    if (!chatId || messages.length === 0 || loadingOlderRef.current) return;
+
+    loadingOlderRef.current = true;
+    try {
+      const original = quotedMessages[messageId] ?? (await fetchMessage(chatId, messageId));
+      if (!original) {
+        toast.error('This message is no longer available');
+        return;
+      }
+
+      const rows = await fetchMessagesBetween(chatId, original, messages[0]);
+      const earlier = await Promise.all(rows.map(decryptMessage));
+      pendingScrollRef.current = messageId;
+      setMessages((current) => [...earlier, ...current]);
+      loadReactions(rows.map((message) => message.id));
+    } catch (error) {
+      console.error('Error loading earlier messages:', error);
+      toast.error('Failed to load the message');
+    } finally {
+      loadingOlderRef.current = false;
+    }
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -210,125 +977,164 @@ const Chat = () => {
     }
   };
 
-  const handleSendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if ((!newMessage.trim() && !selectedFile) || !chatId || sending) return;
-
-    setSending(true);
-    setUploading(selectedFile !== null);
+  const startReplying = (message: Message) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(message);
+  };
 
-    try {
-      let mediaUrl = null;
+  const startEditing = (message: Message) => {
+    handleRemoveFile();
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content);
+  };
 
-      // Upload file if selected
-      if (selectedFile) {
-        const fileExt = selectedFile.name.split('.').pop();
-        const fileName = `${Date.now()}.${fileExt}`;
-        const filePath = `${chatId}/${fileName}`;
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
 
-        const { error: uploadError } = await supabase.storage
-          .from('chat-files')
-          .upload(filePath, selectedFile);
+  const handleEditMessage = async () => {
+    const text = newMessage.trim();
+    if (!editingMessage || !cryptoContext) return;
+    if (!text || text === editingMessage.content) {
+      cancelEditing();
+      return;
+    }
 
-        if (uploadError) throw uploadError;
+    setSending(true);
+    try {
+      await editMessage(cryptoContext, editingMessage, { text, attachment: editingMessage.attachment });
+      setMessages((current) =>
+        current.map((m) =>
+          m.id === editingMessage.id ? { ...m, content: text, edited_at: new Date().toISOString() } : m
+        )
+      );
+      cancelEditing();
+    } catch (error) {
+      console.error('Error editing message:', error);
+      toast.error('Failed to edit message');
+    } finally {
+      setSending(false);
+    }
+  };
 
-        const { data: { publicUrl } } = supabase.storage
-          .from('chat-files')
-          .getPublicUrl(filePath);
+  const handleSendMessage = async (e: React.FormEvent) => {
+    e.preventDefault();
+    stopTyping();
+    if (editingMessage) {
+      await handleEditMessage();
+      return;
+    }
+    if ((!newMessage.trim() && !selectedFile) || !chatId || sending) return;
 
-        mediaUrl = publicUrl;
-      }
+    if (!cryptoContext || !canEncrypt) {
+      toast.error(
+        group ? 'No one else in this group has set up encryption yet' : `${otherUser?.full_name} hasn't set up encryption yet`
+      );
+      return;
+    }
 
-      // Send message with or without media
-      const { error } = await supabase.from('messages').insert({
-        chat_id: chatId,
-        sender_id: user?.id,
-        content: newMessage.trim() || (selectedFile ? selectedFile.name : ''),
-        media_url: mediaUrl,
+    // The outbox encrypts and sends in the background; the message shows as
+    // pending until the server has it
+    try {
+      nearBottomRef.current = true;
+      await queueMessage({
+        chatId,
+        text: newMessage.trim() || (selectedFile ? selectedFile.name : ''),
+        replyToId: replyingTo?.id ?? null,
+        file: selectedFile ?? undefined,
       });
 
-      if (error) throw error;
-
       setNewMessage('');
-      setSelectedFile(null);
-      setFilePreview(null);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    } catch (error: any) {
-      console.error('Error sending message:', error);
+      setReplyingTo(null);
+      handleRemoveFile();
+    } catch (error) {
+      console.error('Error queueing message:', error);
       toast.error('Failed to send message');
-    } finally {
-      setSending(false);
-      setUploading(false);
     }
   };
 
-  const getFileIcon = (url: string) => {
-    const ext = url.split('.').pop()?.toLowerCase();
-    if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext || '')) return ImageIcon;
-    if (['mp4', 'mov', 'avi', 'mkv', 'webm'].includes(ext || '')) return Film;
-    return FileText;
+  const handleBlockToggle = async () => {
+    if (!otherUser) return;
+
+    try {
+      if (blockedByMe) {
+        await unblockUser(user!.id, otherUser.id);
+        // They may still have blocked us
+        setChatBlocked(await hasBlockWith(otherUser.id));
+        setBlockedByMe(false);
+        toast.success(`${otherUser.full_name} was unblocked`);
+      } else {
+        await blockUser(user!.id, otherUser.id);
+        // Blocking also ends the follow, and unblocking doesn't bring it back
+        setChatBlocked(true);
+        setBlockedByMe(true);
+        setConnected(false);
+        toast.success(`${otherUser.full_name} was blocked`);
+      }
+    } catch (error) {
+      console.error('Error updating block:', error);
+      toast.error(blockedByMe ? 'Failed to unblock' : 'Failed to block');
+    }
+  };
+
+  const startReporting = (message: Message) => {
+    setReportTarget({
+      user: { id: message.sender_id, full_name: getMemberName(message.sender_id) ?? 'this user' },
+      message: { id: message.id, text: message.content, attachmentPath: message.media_url },
+    });
   };
 
-  const isImageFile = (url: string) => {
-    const ext = url.split('.').pop()?.toLowerCase();
-    return ['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext || '');
+  const closeSearch = () => {
+    setShowSearch(false);
+    setMessageSearchQuery('');
   };
 
-  const isVideoFile = (url: string) => {
-    const ext = url.split('.').pop()?.toLowerCase();
-    return ['mp4', 'mov', 'avi', 'mkv', 'webm'].includes(ext || '');
+  const handleSearchSelect = (hit: MessageSearchHit) => {
+    closeSearch();
+    scrollToMessage(hit.id);
   };
 
-  const handleDownload = async (url: string, fileName: string) => {
+  const handleTimerChange = async (seconds: number | null) => {
+    if (!chatId || seconds === disappearingSeconds) return;
+
     try {
-      const response = await fetch(url);
-      const blob = await response.blob();
-      const downloadUrl = window.URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      window.URL.revokeObjectURL(downloadUrl);
-      toast.success('File downloaded!');
+      await setDisappearingTimer(chatId, seconds);
+      setDisappearingSeconds(seconds);
     } catch (error) {
-      console.error('Download error:', error);
-      toast.error('Failed to download file');
+      console.error('Error updating disappearing messages:', error);
+      toast.error('Failed to update disappearing messages');
     }
   };
 
-  const loadReactions = async () => {
-    if (!chatId) return;
-
-    // Get all message IDs for this chat
-    const { data: messageIds } = await supabase
-      .from('messages')
-      .select('id')
-      .eq('chat_id', chatId);
-
-    if (!messageIds || messageIds.length === 0) return;
-
-    const { data, error } = await supabase
-      .from('message_reactions')
-      .select('*')
-      .in('message_id', messageIds.map(m => m.id));
-
-    if (error) {
-      console.error('Error loading reactions:', error);
-      return;
+  const handleDeleteForMe = async (message: Message) => {
+    try {
+      await deleteMessageForMe(user!.id, message.id);
+      setHiddenMessageIds((current) => new Set(current).add(message.id));
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      toast.error('Failed to delete message');
     }
+  };
 
-    const reactionsByMessage: Record<string, Reaction[]> = {};
-    data?.forEach((reaction) => {
-      if (!reactionsByMessage[reaction.message_id]) {
-        reactionsByMessage[reaction.message_id] = [];
+  const handleDeleteForEveryone = async (message: Message) => {
+    try {
+      await deleteMessageForEveryone(user!.id, message.id);
+      setMessages((current) =>
+        current.map((m) =>
+          m.id === message.id
+            ? { ...m, content: '', attachment: undefined, media_url: null, deleted_at: new Date().toISOString() }
+            : m
+        )
+      );
+      if (editingMessage?.id === message.id) {
+        cancelEditing();
       }
-      reactionsByMessage[reaction.message_id].push(reaction);
-    });
-    setReactions(reactionsByMessage);
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      toast.error('Failed to delete message');
+    }
   };
 
   const subscribeToReactions = () => {
@@ -433,6 +1239,40 @@ const Chat = () => {
 
   const popularEmojis = ['❤️', '👍', '😂', '😮', '😢', '🙏'];
 
+  const verificationStatus = getVerificationStatus(verifiedKey, otherUser?.public_key);
+  // Sending needs at least one other member with a published identity key
+  const canEncrypt = !!cryptoContext && Object.values(cryptoContext.recipients).some(Boolean);
+  const typingNames = typingUserIds.map((id) => getMemberName(id) ?? 'Someone');
+
+  // Expired messages stay hidden until the server job deletes them, and
+  // messages deleted for me never show
+  const visibleMessages = messages.filter(
+    (message) => !isExpired(message, now) && !hiddenMessageIds.has(message.id)
+  );
+  // Queued messages show until they are sent, unless a retry finds the row
+  // already went through
+  const outgoingMessages = outboxEntries.filter(
+    (entry) => entry.chatId === chatId && !messages.some((message) => message.id === entry.id)
+  );
+
+  const toQuote = (original: Message): Quote => ({
+    senderName: original.sender_id === user?.id ? 'You' : getMemberName(original.sender_id) ?? 'Unknown',
+    text: original.content,
+    attachment: original.attachment,
+    legacyUrl: original.key_version ? null : original.media_url,
+  });
+
+  /** The quote shown on a reply; null while the original is still loading */
+  const getQuote = (messageId: string): Quote | null => {
+    const original = messages.find((message) => message.id === messageId) ?? quotedMessages[messageId];
+    if (original === undefined) return null;
+
+    if (!original || original.deleted_at || hiddenMessageIds.has(original.id) || isExpired(original, now)) {
+      return { senderName: '', text: '', deleted: true };
+    }
+    return toQuote(original);
+  };
+
   if (loading) {
     return (
       <MainLayout>
@@ -443,16 +1283,16 @@ const Chat = () => {
     );
   }
 
-  if (!canChat) {
+  if (!isMember) {
     return (
       <MainLayout>
         <Card className="p-12 text-center max-w-md mx-auto">
-          <h2 className="text-xl font-semibold mb-2">Cannot Start Chat</h2>
+          <h2 className="text-xl font-semibold mb-2">Chat Unavailable</h2>
           <p className="text-muted-foreground mb-4">
-            You need to be connected with this user to start chatting.
+            This chat doesn't exist or you're no longer a member.
           </p>
-          <Button onClick={() => navigate('/discover')}>
-            Back to Discover
+          <Button onClick={() => navigate('/chats')}>
+            Back to Chats
           </Button>
         </Card>
       </MainLayout>
@@ -473,81 +1313,267 @@ const Chat = () => {
               <ArrowLeft className="w-5 h-5" />
             </Button>
             <Avatar className="h-10 w-10">
-              <AvatarImage src={otherUser?.avatar_url || undefined} />
+              <AvatarImage src={(group ? group.avatar_url : otherUser?.avatar_url) || undefined} />
               <AvatarFallback className="bg-gradient-primary text-primary-foreground">
-                {otherUser?.full_name.substring(0, 2).toUpperCase()}
+                {(group ? group.name : otherUser?.full_name)?.substring(0, 2).toUpperCase()}
               </AvatarFallback>
             </Avatar>
-            <div className="flex-1 min-w-0">
-              <h2 className="font-semibold truncate">{otherUser?.full_name}</h2>
-              <p className="text-sm text-muted-foreground truncate">
-                @{otherUser?.username}
-              </p>
-            </div>
+            {group ? (
+              <button
+                type="button"
+                onClick={() => setShowGroupSettings(true)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <h2 className="font-semibold truncate">{group.name}</h2>
+                <p className="text-sm text-muted-foreground truncate">
+                  {typingNames.length > 0 ? (
+                    <span className="text-primary">
+                      {typingNames.join(', ')} {typingNames.length === 1 ? 'is' : 'are'} typing…
+                    </span>
+                  ) : (
+                    `${members.length} members`
+                  )}
+                </p>
+              </button>
+            ) : (
+              <div className="flex-1 min-w-0">
+                <h2 className="font-semibold truncate">{otherUser?.full_name ?? 'Unknown'}</h2>
+                <p className="text-sm text-muted-foreground truncate">
+                  {otherUser && `@${otherUser.username}`}
+                  {typingUserIds.length > 0 ? (
+                    <span className="text-primary"> · typing…</span>
+                  ) : isOtherOnline ? (
+                    <span className="text-success"> · online</span>
+                  ) : lastSeenAt ? (
+                    <span> · last seen {formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}</span>
+                  ) : null}
+                </p>
+              </div>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => (showSearch ? closeSearch() : setShowSearch(true))}
+              aria-label="Search messages"
+              className={showSearch ? 'text-primary' : undefined}
+            >
+              <Search className="w-5 h-5" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size={disappearingSeconds ? 'sm' : 'icon'}
+                  aria-label="Disappearing messages"
+                  className={disappearingSeconds ? 'text-primary' : undefined}
+                  disabled={chatBlocked}
+                >
+                  <Timer className="w-5 h-5" />
+                  {disappearingSeconds && (
+                    <span className="text-xs">{formatDisappearingTimer(disappearingSeconds)}</span>
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Disappearing messages</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuRadioGroup
+                  value={String(disappearingSeconds)}
+                  onValueChange={(value) => handleTimerChange(value === 'null' ? null : Number(value))}
+                >
+                  {DISAPPEARING_TIMER_OPTIONS.map((option) => (
+                    <DropdownMenuRadioItem
+                      key={option.label}
+                      value={String(option.seconds)}
+                      disabled={!!group && !canManageGroup(myRole)}
+                    >
+                      {option.label}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {group && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowGroupSettings(true)}
+                aria-label="Group settings"
+              >
+                <Settings className="w-5 h-5" />
+              </Button>
+            )}
+            {!group && otherUser && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleBlockToggle}
+                aria-label={blockedByMe ? `Unblock ${otherUser.full_name}` : `Block ${otherUser.full_name}`}
+                title={blockedByMe ? 'Unblock' : 'Block'}
+                className={blockedByMe ? 'text-destructive' : undefined}
+              >
+                <Ban className="w-5 h-5" />
+              </Button>
+            )}
+            {!group && otherUser?.public_key && otherUser.signing_key && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setShowSafetyNumber(true)}
+                aria-label="Verify safety number"
+              >
+                {verificationStatus === 'verified' ? (
+                  <ShieldCheck className="w-5 h-5 text-success" />
+                ) : verificationStatus === 'changed' ? (
+                  <ShieldAlert className="w-5 h-5 text-destructive" />
+                ) : (
+                  <Lock className="w-5 h-5 text-muted-foreground" />
+                )}
+              </Button>
+            )}
           </div>
 
+          {verificationStatus === 'changed' && (
+            <button
+              type="button"
+              onClick={() => setShowSafetyNumber(true)}
+              className="flex items-center justify-center gap-2 px-4 py-2 text-sm bg-destructive/10 text-destructive"
+            >
+              <ShieldAlert className="w-4 h-4 shrink-0" />
+              Your safety number with {otherUser?.full_name} has changed. Tap to verify it again.
+            </button>
+          )}
+
+          {cryptoContext && !canEncrypt && (group || otherUser) && (
+            <div className="px-4 py-2 text-sm text-center bg-secondary text-muted-foreground">
+              {group
+                ? 'No one else in this group has set up encryption yet.'
+                : `${otherUser?.full_name} hasn't set up encryption yet. You can send messages once they sign in again.`}
+            </div>
+          )}
+
+          {showSearch && user && (
+            <div className="border-b border-border">
+              <div className="flex items-center gap-2 p-2">
+                <Input
+                  autoFocus
+                  placeholder="Search this chat..."
+                  value={messageSearchQuery}
+                  onChange={(e) => setMessageSearchQuery(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Escape' && closeSearch()}
+                />
+                <Button variant="ghost" size="icon" onClick={closeSearch} aria-label="Close search">
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="max-h-64 overflow-y-auto">
+                <MessageSearchResults
+                  userId={user.id}
+                  query={messageSearchQuery}
+                  chatId={chatId ?? undefined}
+                  describeHit={(hit) =>
+                    hit.senderId === user.id ? 'You' : getMemberName(hit.senderId) ?? 'Unknown'
+                  }
+                  onSelect={handleSearchSelect}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Messages */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {messages.length === 0 ? (
+          <div
+            ref={scrollContainerRef}
+            onScroll={handleMessagesScroll}
+            className="flex-1 overflow-y-auto p-4 space-y-4"
+          >
+            {loadingOlder && (
+              <div className="flex justify-center">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {visibleMessages.length === 0 && outgoingMessages.length === 0 ? (
               <div className="text-center py-12 text-muted-foreground">
                 No messages yet. Start the conversation!
               </div>
             ) : (
-              messages.map((message) => {
+              visibleMessages.map((message) => {
                 const isOwn = message.sender_id === user?.id;
-                const hasMedia = !!message.media_url;
-                const FileIcon = hasMedia ? getFileIcon(message.media_url!) : null;
+                const timerEvent = readTimerEvent(message);
+
+                if (timerEvent) {
+                  return (
+                    <div key={message.id} className="flex justify-center">
+                      <div className="flex items-center gap-2 rounded-full bg-secondary px-3 py-1 text-xs text-muted-foreground">
+                        <Timer className="w-3 h-3" />
+                        {describeTimerEvent(timerEvent, isOwn ? 'You' : getMemberName(message.sender_id) ?? 'They')}
+                      </div>
+                    </div>
+                  );
+                }
+
+                if (message.deleted_at) {
+                  return (
+                    <div
+                      key={message.id}
+                      className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div className="flex items-center gap-2 rounded-2xl border border-border px-4 py-2 text-sm italic text-muted-foreground">
+                        <Ban className="w-4 h-4" />
+                        {isOwn ? 'You deleted this message' : 'This message was deleted'}
+                      </div>
+                    </div>
+                  );
+                }
+
+                // Encrypted rows only show media once their payload is readable
+                const hasMedia = !!message.attachment || (!message.key_version && !!message.media_url);
                 const reactionCounts = getReactionCounts(message.id);
                 
                 return (
                   <div
                     key={message.id}
+                    id={`message-${message.id}`}
+                    data-incoming={isOwn ? undefined : ''}
+                    data-message-id={message.id}
+                    data-created-at={message.created_at}
                     className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}
                   >
                     <div className="relative group">
                       <div
-                        className={`max-w-[70%] rounded-2xl px-4 py-2 ${
+                        className={`max-w-[70%] rounded-2xl px-4 py-2 transition-shadow ${
                           isOwn
                             ? 'bg-gradient-primary text-primary-foreground rounded-br-sm'
                             : 'bg-secondary text-secondary-foreground rounded-bl-sm'
-                        }`}
+                        } ${highlightedMessageId === message.id ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''}`}
                       >
+                        {group && !isOwn && (
+                          <p className="text-xs font-semibold text-primary mb-1">
+                            {getMemberName(message.sender_id) ?? 'Unknown'}
+                          </p>
+                        )}
+                        {message.reply_to_id && (
+                          <QuotedMessage
+                            quote={getQuote(message.reply_to_id)}
+                            onClick={() => scrollToMessage(message.reply_to_id!)}
+                            className="mb-2"
+                          />
+                        )}
                         {hasMedia ? (
                           <div className="space-y-2">
-                            {isImageFile(message.media_url!) ? (
-                              <img
-                                src={message.media_url!}
-                                alt={message.content}
-                                className="rounded-lg max-w-full h-auto max-h-64 object-cover"
-                              />
-                            ) : isVideoFile(message.media_url!) ? (
-                              <video
-                                src={message.media_url!}
-                                controls
-                                className="rounded-lg max-w-full h-auto max-h-64"
-                              />
-                            ) : (
-                              <div className="flex items-center gap-2 p-2 bg-black/10 rounded-lg">
-                                {FileIcon && <FileIcon className="w-8 h-8" />}
-                                <div className="flex-1 min-w-0">
-                                  <p className="text-sm font-medium truncate">{message.content}</p>
-                                </div>
-                              </div>
+                            <AttachmentPreview
+                              attachment={message.attachment}
+                              legacyUrl={message.media_url}
+                              fileName={message.content}
+                            />
+                            {message.attachment && message.content !== message.attachment.name && (
+                              <p className="break-words">{message.content}</p>
                             )}
-                            <a
-                              href={message.media_url!}
-                              download
-                              className="flex items-center gap-2 text-xs hover:underline"
-                            >
-                              <Download className="w-3 h-3" />
-                              Download
-                            </a>
                           </div>
                         ) : (
                           <p className="break-words">{message.content}</p>
                         )}
                         <span
-                          className={`text-xs mt-1 block ${
+                          className={`text-xs mt-1 flex items-center gap-1 ${
                             isOwn
                               ? 'text-primary-foreground/70'
                               : 'text-muted-foreground'
@@ -557,18 +1583,99 @@ const Chat = () => {
                             hour: '2-digit',
                             minute: '2-digit',
                           })}
+                          {message.edited_at && (
+                            <button
+                              type="button"
+                              onClick={() => setHistoryMessage(message)}
+                              className="underline-offset-2 hover:underline"
+                            >
+                              edited
+                            </button>
+                          )}
+                          {message.expires_at && <Timer className="w-3 h-3" />}
+                          {isOwn && (
+                            <MessageStatusIcon
+                              status={getMessageStatus(
+                                message,
+                                recipientIds.map((id) => receipts[id] ?? null),
+                                readReceiptsEnabled
+                              )}
+                            />
+                          )}
                         </span>
                       </div>
                       
-                      {/* Reaction button */}
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        className="absolute -bottom-2 left-1/2 -translate-x-1/2 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity bg-background shadow-sm"
-                        onClick={() => setShowReactionPicker(showReactionPicker === message.id ? null : message.id)}
-                      >
-                        <Smile className="w-3 h-3" />
-                      </Button>
+                      {/* Reaction, reply and edit buttons */}
+                      <div className="absolute -bottom-2 left-1/2 -translate-x-1/2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        {canChat && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 bg-background shadow-sm"
+                              onClick={() => setShowReactionPicker(showReactionPicker === message.id ? null : message.id)}
+                            >
+                              <Smile className="w-3 h-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 bg-background shadow-sm"
+                              onClick={() => startReplying(message)}
+                              aria-label="Reply to message"
+                            >
+                              <Reply className="w-3 h-3" />
+                            </Button>
+                          </>
+                        )}
+                        {!isOwn && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 bg-background shadow-sm"
+                            onClick={() => startReporting(message)}
+                            aria-label="Report message"
+                          >
+                            <Flag className="w-3 h-3" />
+                          </Button>
+                        )}
+                        {canChat && user && canEditMessage(message, user.id) && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 bg-background shadow-sm"
+                            onClick={() => startEditing(message)}
+                            aria-label="Edit message"
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </Button>
+                        )}
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 bg-background shadow-sm"
+                              aria-label="Delete message"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="center">
+                            <DropdownMenuItem onClick={() => handleDeleteForMe(message)}>
+                              Delete for me
+                            </DropdownMenuItem>
+                            {user && canDeleteForEveryone(message, user.id) && (
+                              <DropdownMenuItem
+                                onClick={() => handleDeleteForEveryone(message)}
+                                className="text-destructive focus:text-destructive"
+                              >
+                                Delete for everyone
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </div>
                       
                       {/* Reaction picker */}
                       {showReactionPicker === message.id && (
@@ -593,6 +1700,7 @@ const Chat = () => {
                           <button
                             key={emoji}
                             onClick={() => handleReaction(message.id, emoji)}
+                            disabled={!canChat}
                             className={`px-2 py-1 rounded-full text-xs flex items-center gap-1 transition-colors ${
                               userReacted
                                 ? 'bg-primary/20 border border-primary'
@@ -609,87 +1717,223 @@ const Chat = () => {
                 );
               })
             )}
+            {outgoingMessages.map((entry) => (
+              <div key={entry.id} className="flex flex-col items-end">
+                <div className="max-w-[70%] rounded-2xl rounded-br-sm px-4 py-2 bg-gradient-primary text-primary-foreground opacity-70">
+                  {entry.replyToId && (
+                    <QuotedMessage quote={getQuote(entry.replyToId)} className="mb-2" />
+                  )}
+                  {entry.file && (
+                    <div className="flex items-center gap-2 mb-1">
+                      <FileText className="w-4 h-4 shrink-0" />
+                      <span className="truncate text-sm">{entry.file.name}</span>
+                    </div>
+                  )}
+                  {(!entry.file || entry.text !== entry.file.name) && (
+                    <p className="break-words">{entry.text}</p>
+                  )}
+                  <span className="text-xs mt-1 flex items-center gap-1 text-primary-foreground/70">
+                    {new Date(entry.createdAt).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                    <MessageStatusIcon status={entry.status} />
+                  </span>
+                </div>
+                {entry.status === 'failed' && (
+                  <div className="flex items-center gap-2 mt-1 text-xs text-destructive">
+                    <span>Not sent</span>
+                    <button
+                      type="button"
+                      onClick={() => retryMessage(entry.id)}
+                      className="font-medium underline-offset-2 hover:underline"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => discardMessage(entry.id)}
+                      className="font-medium underline-offset-2 hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
             <div ref={messagesEndRef} />
           </div>
 
           {/* Message Input */}
-          <form
-            onSubmit={handleSendMessage}
-            className="p-4 border-t border-border"
-          >
-            {/* File Preview */}
-            {selectedFile && (
-              <div className="mb-3 p-3 bg-secondary rounded-lg">
-                <div className="flex items-start gap-3">
-                  {filePreview ? (
-                    <img
-                      src={filePreview}
-                      alt="Preview"
-                      className="w-20 h-20 object-cover rounded"
-                    />
-                  ) : (
-                    <div className="w-20 h-20 bg-muted rounded flex items-center justify-center">
-                      <FileText className="w-8 h-8 text-muted-foreground" />
-                    </div>
-                  )}
+          {!canChat ? (
+            <div className="p-4 border-t border-border text-center text-sm text-muted-foreground">
+              {!chatBlocked ? (
+                `You're no longer connected with ${otherUser?.full_name}. Your history stays here, but you can't send new messages.`
+              ) : blockedByMe ? (
+                <>
+                  You blocked {otherUser?.full_name}.{' '}
+                  <button
+                    type="button"
+                    onClick={handleBlockToggle}
+                    className="font-medium text-primary underline-offset-2 hover:underline"
+                  >
+                    Unblock
+                  </button>
+                </>
+              ) : (
+                "You can't send messages in this chat."
+              )}
+            </div>
+          ) : (
+            <form
+              onSubmit={handleSendMessage}
+              className="p-4 border-t border-border"
+            >
+              {/* Editing indicator */}
+              {editingMessage && (
+                <div className="mb-3 flex items-center gap-3 rounded-lg bg-secondary px-3 py-2 text-sm">
+                  <Pencil className="w-4 h-4 text-primary shrink-0" />
                   <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{selectedFile.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                    <p className="font-medium">Editing message</p>
+                    <p className="text-muted-foreground truncate">{editingMessage.content}</p>
+                  </div>
+                  <Button type="button" variant="ghost" size="icon" onClick={cancelEditing} className="shrink-0">
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+
+              {/* Reply preview */}
+              {replyingTo && (
+                <div className="mb-3 flex items-center gap-3 rounded-lg bg-secondary px-3 py-2 text-sm">
+                  <Reply className="w-4 h-4 text-primary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium mb-1">
+                      Replying to {replyingTo.sender_id === user?.id ? 'yourself' : getMemberName(replyingTo.sender_id)}
                     </p>
+                    <QuotedMessage quote={toQuote(replyingTo)} />
                   </div>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={handleRemoveFile}
-                    className="shrink-0"
-                  >
+                  <Button type="button" variant="ghost" size="icon" onClick={() => setReplyingTo(null)} className="shrink-0">
                     <X className="w-4 h-4" />
                   </Button>
                 </div>
+              )}
+
+              {/* File Preview */}
+              {selectedFile && (
+                <div className="mb-3 p-3 bg-secondary rounded-lg">
+                  <div className="flex items-start gap-3">
+                    {filePreview ? (
+                      <img
+                        src={filePreview}
+                        alt="Preview"
+                        className="w-20 h-20 object-cover rounded"
+                      />
+                    ) : (
+                      <div className="w-20 h-20 bg-muted rounded flex items-center justify-center">
+                        <FileText className="w-8 h-8 text-muted-foreground" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{selectedFile.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={handleRemoveFile}
+                      className="shrink-0"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+              
+              <div className="flex gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                  accept="image/*,video/*,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.zip,.rar,.txt"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={!!selectedFile || !!editingMessage}
+                >
+                  <Paperclip className="w-5 h-5" />
+                </Button>
+                <Input
+                  value={newMessage}
+                  onChange={(e) => handleMessageChange(e.target.value)}
+                  placeholder="Type a message..."
+                  disabled={sending}
+                  className="flex-1"
+                />
+                <Button
+                  type="submit"
+                  disabled={(!newMessage.trim() && !selectedFile) || sending}
+                  className="bg-gradient-primary"
+                >
+                  {sending ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <Send className="w-5 h-5" />
+                  )}
+                </Button>
               </div>
-            )}
-            
-            <div className="flex gap-2">
-              <input
-                ref={fileInputRef}
-                type="file"
-                onChange={handleFileSelect}
-                className="hidden"
-                accept="image/*,video/*,.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.zip,.rar,.txt"
-              />
-              <Button
-                type="button"
-                variant="outline"
-                size="icon"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={uploading || !!selectedFile}
-              >
-                <Paperclip className="w-5 h-5" />
-              </Button>
-              <Input
-                value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
-                placeholder="Type a message..."
-                disabled={sending || uploading}
-                className="flex-1"
-              />
-              <Button
-                type="submit"
-                disabled={(!newMessage.trim() && !selectedFile) || sending || uploading}
-                className="bg-gradient-primary"
-              >
-                {sending || uploading ? (
-                  <Loader2 className="w-5 h-5 animate-spin" />
-                ) : (
-                  <Send className="w-5 h-5" />
-                )}
-              </Button>
-            </div>
-          </form>
+            </form>
+          )}
         </Card>
       </div>
+
+      {group && chatId && (
+        <GroupSettingsDialog
+          open={showGroupSettings}
+          onOpenChange={setShowGroupSettings}
+          chatId={chatId}
+          userId={user!.id}
+          group={group}
+          members={members}
+          onChanged={refreshGroup}
+        />
+      )}
+
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} userId={user!.id} />
+
+      {otherUser?.public_key && otherUser.signing_key && ownKeys && (
+        <SafetyNumberDialog
+          open={showSafetyNumber}
+          onOpenChange={setShowSafetyNumber}
+          userId={user!.id}
+          keys={ownKeys}
+          contact={{
+            id: otherUser.id,
+            full_name: otherUser.full_name,
+            public_key: otherUser.public_key,
+            signing_key: otherUser.signing_key,
+          }}
+          status={verificationStatus}
+          onStatusChange={setVerifiedKey}
+        />
+      )}
+
+      {historyMessage && cryptoContext && (
+        <MessageRevisionsDialog
+          open={!!historyMessage}
+          onOpenChange={(open) => !open && setHistoryMessage(null)}
+          cryptoContext={cryptoContext}
+          message={historyMessage}
+          currentText={historyMessage.content}
+        />
+      )}
     </MainLayout>
   );
 };
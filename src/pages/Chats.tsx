@@ -1,77 +1,130 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useUnreadCounts } from '@/hooks/useUnreadCounts';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { MessageSquare, Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { MessageSquare, Loader2, Search, ShieldCheck, ShieldAlert, Users } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import MainLayout from '@/components/MainLayout';
+import CreateGroupDialog from '@/components/CreateGroupDialog';
+import MessageSearchResults from '@/components/MessageSearchResults';
 import { toast } from 'sonner';
+import { deriveChatKey, ensureIdentityKey } from '@/lib/crypto';
+import { ChatCryptoContext, readMessageText } from '@/lib/messageCrypto';
+import { describeTimerEvent, readTimerEvent } from '@/lib/disappearingMessages';
+import { InboxMessage, fetchInbox } from '@/lib/inbox';
+import { formatUnreadCount, markMessagesDelivered } from '@/lib/readReceipts';
+import { fetchMemberNames } from '@/lib/groups';
+import { chatPath } from '@/lib/chatRouting';
+import { MIN_SEARCH_LENGTH, MessageSearchHit } from '@/lib/messageSearch';
+import { VerificationStatus, fetchVerifiedKeys, getVerificationStatus } from '@/lib/verification';
 
 interface ChatPreview {
   id: string;
-  otherUser: {
-    id: string;
-    username: string;
-    full_name: string;
-    avatar_url: string | null;
-  };
+  name: string;
+  avatarUrl: string | null;
+  /** The other participant's username; groups have none */
+  username: string | null;
   lastMessage?: {
     content: string;
     created_at: string;
   };
+  unreadCount: number;
+  /** Safety number state of a direct chat */
+  verification: VerificationStatus | null;
+}
+
+interface InboxChat {
+  cryptoContext: ChatCryptoContext;
+  isGroup: boolean;
+  /** Names of the other members by user id */
+  memberNames: Record<string, string>;
 }
 
 const Chats = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const { counts: unreadCounts } = useUnreadCounts();
   const [chats, setChats] = useState<ChatPreview[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(true);
+  const [showCreateGroup, setShowCreateGroup] = useState(false);
+  // Kept per chat so previews of live messages decrypt without refetching
+  const inboxChatsRef = useRef<Record<string, InboxChat>>({});
 
   useEffect(() => {
     if (user) {
       fetchChats();
+      return subscribeToInbox();
     }
   }, [user]);
 
+  const describeMessage = async (inboxChat: InboxChat, message: InboxMessage) => {
+    const senderName =
+      message.sender_id === user?.id ? 'You' : inboxChat.memberNames[message.sender_id] ?? 'Someone';
+
+    const timerEvent = readTimerEvent(message);
+    if (timerEvent) {
+      return describeTimerEvent(timerEvent, senderName);
+    }
+    // Decrypt the preview through the same sessions the chat uses
+    const text = await readMessageText(inboxChat.cryptoContext, message);
+    return inboxChat.isGroup ? `${senderName}: ${text}` : text;
+  };
+
   const fetchChats = async () => {
     try {
-      // Get all chats where user is a participant
-      const { data: chatsData, error: chatsError } = await supabase
-        .from('chats')
-        .select('*')
-        .or(`user1_id.eq.${user?.id},user2_id.eq.${user?.id}`)
-        .order('created_at', { ascending: false });
+      const inbox = await fetchInbox();
 
-      if (chatsError) throw chatsError;
+      // Everything listed here has reached this device
+      markMessagesDelivered().catch((error) => {
+        console.error('Error marking messages delivered:', error);
+      });
+
+      const identity = await ensureIdentityKey(user!.id);
+      const verifiedKeys = await fetchVerifiedKeys(user!.id);
+      const groupMemberNames = await fetchMemberNames(
+        inbox.filter((entry) => entry.group).map((entry) => entry.chatId)
+      );
 
-      // For each chat, get the other user's profile and last message
       const chatPreviews = await Promise.all(
-        (chatsData || []).map(async (chat) => {
-          const otherUserId = chat.user1_id === user?.id ? chat.user2_id : chat.user1_id;
-
-          // Get other user's profile
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('*')
-            .eq('id', otherUserId)
-            .single();
-
-          // Get last message
-          const { data: lastMessage } = await supabase
-            .from('messages')
-            .select('content, created_at')
-            .eq('chat_id', chat.id)
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .single();
+        inbox.map(async (entry): Promise<ChatPreview> => {
+          const { group, otherUser, lastMessage } = entry;
+          // Previews only read messages, so the recipients don't matter here
+          const inboxChat: InboxChat = {
+            cryptoContext: {
+              userId: user!.id,
+              chatId: entry.chatId,
+              recipients: {},
+              staticKey: otherUser?.public_key
+                ? await deriveChatKey(identity.privateKey, otherUser.public_key, entry.chatId)
+                : null,
+            },
+            isGroup: !!group,
+            memberNames: otherUser
+              ? { [otherUser.id]: otherUser.full_name }
+              : groupMemberNames[entry.chatId] ?? {},
+          };
+          inboxChatsRef.current[entry.chatId] = inboxChat;
 
           return {
-            id: chat.id,
-            otherUser: profile,
-            lastMessage,
+            id: entry.chatId,
+            name: group ? group.name : otherUser!.full_name,
+            avatarUrl: group ? group.avatar_url : otherUser!.avatar_url,
+            username: otherUser?.username ?? null,
+            lastMessage: lastMessage
+              ? {
+                  content: await describeMessage(inboxChat, lastMessage),
+                  created_at: lastMessage.created_at,
+                }
+              : undefined,
+            unreadCount: entry.unreadCount,
+            verification: otherUser
+              ? getVerificationStatus(verifiedKeys[otherUser.id], otherUser.public_key)
+              : null,
           };
         })
       );
@@ -85,27 +138,111 @@ const Chats = () => {
     }
   };
 
-  const handleChatClick = (otherUserId: string) => {
-    navigate(`/chat/${otherUserId}`);
+  const subscribeToInbox = () => {
+    // Realtime only delivers messages from chats we're part of, so one
+    // unfiltered subscription covers every chat in the list
+    const channel = supabase
+      .channel(`inbox:${user!.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+        },
+        async (payload) => {
+          const message = payload.new as InboxMessage & { chat_id: string };
+          const inboxChat = inboxChatsRef.current[message.chat_id];
+
+          // A chat that didn't exist when the list was loaded
+          if (!inboxChat) {
+            fetchChats();
+            return;
+          }
+
+          const content = await describeMessage(inboxChat, message);
+
+          setChats((current) => {
+            const updated = current.find((preview) => preview.id === message.chat_id);
+            if (!updated) return current;
+
+            return [
+              {
+                ...updated,
+                lastMessage: { content, created_at: message.created_at },
+              },
+              ...current.filter((preview) => preview.id !== message.chat_id),
+            ];
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Being added to a group shows it before anyone writes in it
+          event: 'INSERT',
+          schema: 'public',
+          table: 'chat_members',
+          filter: `user_id=eq.${user!.id}`,
+        },
+        () => fetchChats()
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Delete events can't be filtered, so other members' rows are ignored
+          event: 'DELETE',
+          schema: 'public',
+          table: 'chat_members',
+        },
+        (payload) => {
+          const membership = payload.old as { chat_id: string; user_id: string };
+          if (membership.user_id !== user!.id) return;
+
+          delete inboxChatsRef.current[membership.chat_id];
+          setChats((current) => current.filter((preview) => preview.id !== membership.chat_id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  };
+
+  /** The chat a search hit is in, and the sender in groups */
+  const describeHit = (hit: MessageSearchHit) => {
+    const chatName = chats.find((chat) => chat.id === hit.chatId)?.name ?? 'Chat';
+    const inboxChat = inboxChatsRef.current[hit.chatId];
+    if (!inboxChat?.isGroup) return chatName;
+
+    const senderName = hit.senderId === user?.id ? 'You' : inboxChat.memberNames[hit.senderId] ?? 'Someone';
+    return `${chatName} · ${senderName}`;
   };
 
   const filteredChats = chats.filter((chat) =>
-    chat.otherUser.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    chat.otherUser.username.toLowerCase().includes(searchQuery.toLowerCase())
+    chat.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    chat.username?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   return (
     <MainLayout>
       <div className="space-y-6">
-        <div>
-          <h1 className="text-3xl font-bold mb-2">Chats</h1>
-          <p className="text-muted-foreground">Your private conversations</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Chats</h1>
+            <p className="text-muted-foreground">Your private conversations</p>
+          </div>
+          <Button onClick={() => setShowCreateGroup(true)} className="bg-gradient-primary">
+            <Users className="w-4 h-4 mr-2" />
+            New group
+          </Button>
         </div>
 
         <div className="relative">
           <Search className="absolute left-3 top-3 h-5 w-5 text-muted-foreground" />
           <Input
-            placeholder="Search conversations..."
+            placeholder="Search conversations and messages..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10"
@@ -130,40 +267,81 @@ const Chats = () => {
           </Card>
         ) : (
           <div className="space-y-2">
-            {filteredChats.map((chat) => (
-              <Card
-                key={chat.id}
-                className="p-4 hover:shadow-md transition-all cursor-pointer"
-                onClick={() => handleChatClick(chat.otherUser.id)}
-              >
-                <div className="flex items-center gap-4">
-                  <Avatar className="h-12 w-12">
-                    <AvatarImage src={chat.otherUser.avatar_url || undefined} />
-                    <AvatarFallback className="bg-gradient-primary text-primary-foreground">
-                      {chat.otherUser.full_name.substring(0, 2).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center justify-between mb-1">
-                      <h3 className="font-semibold truncate">
-                        {chat.otherUser.full_name}
-                      </h3>
-                      {chat.lastMessage && (
-                        <span className="text-xs text-muted-foreground">
-                          {new Date(chat.lastMessage.created_at).toLocaleDateString()}
-                        </span>
-                      )}
+            {filteredChats.map((chat) => {
+              const unread = unreadCounts[chat.id] ?? chat.unreadCount;
+
+              return (
+                <Card
+                  key={chat.id}
+                  className="p-4 hover:shadow-md transition-all cursor-pointer"
+                  onClick={() => navigate(chatPath(chat.id))}
+                >
+                  <div className="flex items-center gap-4">
+                    <Avatar className="h-12 w-12">
+                      <AvatarImage src={chat.avatarUrl || undefined} />
+                      <AvatarFallback className="bg-gradient-primary text-primary-foreground">
+                        {chat.name.substring(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between mb-1">
+                        <div className="flex items-center gap-1 min-w-0">
+                          <h3 className={`truncate ${unread > 0 ? 'font-bold' : 'font-semibold'}`}>
+                            {chat.name}
+                          </h3>
+                          {chat.verification === 'verified' && (
+                            <ShieldCheck className="w-4 h-4 shrink-0 text-success" aria-label="Verified" />
+                          )}
+                          {chat.verification === 'changed' && (
+                            <ShieldAlert className="w-4 h-4 shrink-0 text-destructive" aria-label="Safety number changed" />
+                          )}
+                        </div>
+                        {chat.lastMessage && (
+                          <span className={`text-xs ${unread > 0 ? 'font-semibold text-primary' : 'text-muted-foreground'}`}>
+                            {new Date(chat.lastMessage.created_at).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                        <p
+                          className={`text-sm truncate ${
+                            unread > 0 ? 'font-semibold text-foreground' : 'text-muted-foreground'
+                          }`}
+                        >
+                          {chat.lastMessage?.content || 'Start a conversation'}
+                        </p>
+                        {unread > 0 && (
+                          <span className="shrink-0 min-w-5 rounded-full bg-gradient-primary px-1.5 text-center text-xs font-semibold leading-5 text-primary-foreground">
+                            {formatUnreadCount(unread)}
+                          </span>
+                        )}
+                      </div>
                     </div>
-                    <p className="text-sm text-muted-foreground truncate">
-                      {chat.lastMessage?.content || 'Start a conversation'}
-                    </p>
                   </div>
-                </div>
-              </Card>
-            ))}
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {user && searchQuery.trim().length >= MIN_SEARCH_LENGTH && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-semibold text-muted-foreground">Messages</h2>
+            <Card className="overflow-hidden">
+              <MessageSearchResults
+                userId={user.id}
+                query={searchQuery}
+                describeHit={describeHit}
+                onSelect={(hit) => navigate(chatPath(hit.chatId, hit.id))}
+              />
+            </Card>
           </div>
         )}
       </div>
+
+      {user && (
+        <CreateGroupDialog open={showCreateGroup} onOpenChange={setShowCreateGroup} userId={user.id} />
+      )}
     </MainLayout>
   );
 };
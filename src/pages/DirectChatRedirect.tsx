@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import MainLayout from '@/components/MainLayout';
+import { NotConnectedError, chatPath, findOrCreateDirectChat } from '@/lib/chatRouting';
+
+/** Old /chat/:userId links: finds or starts the chat, then opens it by id */
+const DirectChatRedirect = () => {
+  const { userId } = useParams<{ userId: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [chatId, setChatId] = useState<string | null>(null);
+  const [notConnected, setNotConnected] = useState(false);
+
+  useEffect(() => {
+    if (!user || !userId) return;
+
+    findOrCreateDirectChat(user.id, userId)
+      .then(setChatId)
+      .catch((error) => {
+        if (error instanceof NotConnectedError) {
+          setNotConnected(true);
+          return;
+        }
+        console.error('Error opening chat:', error);
+        toast.error('Failed to load chat');
+        navigate('/chats', { replace: true });
+      });
+  }, [user, userId]);
+
+  if (chatId) {
+    return <Navigate to={chatPath(chatId)} replace />;
+  }
+
+  if (notConnected) {
+    return (
+      <MainLayout>
+        <Card className="p-12 text-center max-w-md mx-auto">
+          <h2 className="text-xl font-semibold mb-2">Cannot Start Chat</h2>
+          <p className="text-muted-foreground mb-4">
+            You need to be connected with this user to start chatting.
+          </p>
+          <Button onClick={() => navigate('/discover')}>
+            Back to Discover
+          </Button>
+        </Card>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="flex items-center justify-center h-96">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    </MainLayout>
+  );
+};
+
+export default DirectChatRedirect;
@@ -5,55 +5,107 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Search, UserPlus, Check, MessageSquare } from 'lucide-react';
+import { Search, UserPlus, UserMinus, X, MessageSquare, Loader2, Ban, Flag } from 'lucide-react';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 import MainLayout from '@/components/MainLayout';
-
-interface Profile {
-  id: string;
-  username: string;
-  full_name: string;
-  avatar_url: string | null;
-  bio: string | null;
-}
+import ReportDialog, { ReportTarget } from '@/components/ReportDialog';
+import { NotConnectedError, chatPath, findOrCreateDirectChat } from '@/lib/chatRouting';
+import { blockUser } from '@/lib/blocks';
+import { FollowStatus as FollowStatusValue, unfollowUser } from '@/lib/follows';
+import {
+  MIN_PROFILE_SEARCH_LENGTH,
+  ProfileSummary,
+  SearchRateLimitError,
+  SuggestedProfile,
+  fetchSuggestedProfiles,
+  searchProfiles,
+} from '@/lib/profileSearch';
 
 interface FollowStatus {
-  [key: string]: 'none' | 'pending' | 'accepted' | 'rejected';
+  [key: string]: 'none' | FollowStatusValue;
 }
 
 const Discover = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
+  const [suggestions, setSuggestions] = useState<SuggestedProfile[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [followStatus, setFollowStatus] = useState<FollowStatus>({});
   const [loading, setLoading] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+
+  const trimmedQuery = searchQuery.trim();
+  const isSearching = trimmedQuery.length >= MIN_PROFILE_SEARCH_LENGTH;
 
   useEffect(() => {
     if (user) {
-      fetchProfiles();
+      fetchSuggestions();
       fetchFollowStatus();
     }
   }, [user]);
 
-  const fetchProfiles = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .neq('id', user?.id)
-        .order('created_at', { ascending: false });
+  // Search once typing pauses; a newer query discards older results
+  useEffect(() => {
+    setProfiles([]);
+    setHasMore(false);
+    if (!user || !isSearching) return;
 
-      if (error) throw error;
-      setProfiles(data || []);
-    } catch (error: any) {
-      toast.error('Failed to load profiles');
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(() => {
+      searchProfiles(trimmedQuery)
+        .then((page) => {
+          if (cancelled) return;
+          setProfiles(page.profiles);
+          setHasMore(page.hasMore);
+        })
+        .catch((error) => {
+          if (cancelled) return;
+          console.error('Error searching profiles:', error);
+          toast.error(error instanceof SearchRateLimitError ? error.message : 'Failed to search profiles');
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      setSearching(false);
+    };
+  }, [user, trimmedQuery]);
+
+  const fetchSuggestions = async () => {
+    try {
+      setSuggestions(await fetchSuggestedProfiles());
+    } catch (error) {
+      console.error('Error loading suggestions:', error);
+      toast.error('Failed to load suggestions');
     } finally {
       setLoading(false);
     }
   };
 
+  const loadMore = async () => {
+    setLoadingMore(true);
+    try {
+      const page = await searchProfiles(trimmedQuery, profiles.length);
+      setProfiles((current) => [...current, ...page.profiles]);
+      setHasMore(page.hasMore);
+    } catch (error) {
+      console.error('Error searching profiles:', error);
+      toast.error(error instanceof SearchRateLimitError ? error.message : 'Failed to search profiles');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const fetchFollowStatus = async () => {
     try {
       const { data, error } = await supabase
@@ -65,7 +117,7 @@ const Discover = () => {
 
       const statusMap: FollowStatus = {};
       data?.forEach((follow) => {
-        statusMap[follow.following_id] = follow.status as 'none' | 'pending' | 'accepted' | 'rejected';
+        statusMap[follow.following_id] = follow.status as FollowStatusValue;
       });
       setFollowStatus(statusMap);
     } catch (error: any) {
@@ -75,6 +127,11 @@ const Discover = () => {
 
   const handleFollow = async (profileId: string) => {
     try {
+      // An expired request has to be cleared before asking again
+      if (followStatus[profileId] === 'expired') {
+        await unfollowUser(user!.id, profileId);
+      }
+
       const { error } = await supabase
         .from('follows')
         .insert({
@@ -95,16 +152,42 @@ const Discover = () => {
     }
   };
 
-  const handleMessage = (profileId: string) => {
-    navigate(`/chat/${profileId}`);
+  const handleUnfollow = async (profile: ProfileSummary) => {
+    const wasPending = followStatus[profile.id] === 'pending';
+    try {
+      await unfollowUser(user!.id, profile.id);
+      setFollowStatus((current) => ({ ...current, [profile.id]: 'none' }));
+      toast.success(wasPending ? 'Follow request cancelled' : `You unfollowed ${profile.full_name}`);
+    } catch (error) {
+      console.error('Error unfollowing user:', error);
+      toast.error(wasPending ? 'Failed to cancel request' : 'Failed to unfollow');
+    }
   };
 
-  const filteredProfiles = profiles.filter(
-    (profile) =>
-      profile.username.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      profile.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      profile.bio?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const handleBlock = async (profile: ProfileSummary) => {
+    try {
+      await blockUser(user!.id, profile.id);
+      // Blocked people no longer show up in search
+      setProfiles((current) => current.filter((p) => p.id !== profile.id));
+      setSuggestions((current) => current.filter((p) => p.id !== profile.id));
+      toast.success(`${profile.full_name} was blocked`);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      toast.error('Failed to block');
+    }
+  };
+
+  const handleMessage = async (profileId: string) => {
+    try {
+      navigate(chatPath(await findOrCreateDirectChat(user!.id, profileId)));
+    } catch (error) {
+      console.error('Error opening chat:', error);
+      toast.error(error instanceof NotConnectedError ? error.message : 'Failed to open chat');
+    }
+  };
+
+  const shownProfiles: (ProfileSummary & { mutual_count?: number })[] = isSearching ? profiles : suggestions;
+  const showLoading = isSearching ? searching : loading;
 
   return (
     <MainLayout>
@@ -126,13 +209,17 @@ const Discover = () => {
           />
         </div>
 
-        {loading ? (
+        {!isSearching && !showLoading && suggestions.length > 0 && (
+          <h2 className="text-lg font-semibold">Suggested for you</h2>
+        )}
+
+        {showLoading ? (
           <div className="text-center py-8 text-muted-foreground">
-            Loading profiles...
+            {isSearching ? 'Searching...' : 'Loading suggestions...'}
           </div>
         ) : (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {filteredProfiles.map((profile) => {
+            {shownProfiles.map((profile) => {
               const status = followStatus[profile.id] || 'none';
               const canMessage = status === 'accepted';
 
@@ -150,6 +237,11 @@ const Discover = () => {
                       <p className="text-sm text-muted-foreground truncate">
                         @{profile.username}
                       </p>
+                      {!!profile.mutual_count && (
+                        <p className="text-xs text-muted-foreground">
+                          {profile.mutual_count} mutual {profile.mutual_count === 1 ? 'connection' : 'connections'}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -160,7 +252,7 @@ const Discover = () => {
                   )}
 
                   <div className="flex gap-2">
-                    {status === 'none' && (
+                    {(status === 'none' || status === 'expired') && (
                       <Button
                         onClick={() => handleFollow(profile.id)}
                         className="flex-1"
@@ -171,15 +263,15 @@ const Discover = () => {
                       </Button>
                     )}
                     {status === 'pending' && (
-                      <Button className="flex-1" variant="secondary" disabled>
-                        <Check className="w-4 h-4 mr-2" />
-                        Request Sent
+                      <Button onClick={() => handleUnfollow(profile)} className="flex-1" variant="secondary">
+                        <X className="w-4 h-4 mr-2" />
+                        Cancel Request
                       </Button>
                     )}
                     {status === 'accepted' && (
-                      <Button className="flex-1" variant="secondary" disabled>
-                        <Check className="w-4 h-4 mr-2" />
-                        Following
+                      <Button onClick={() => handleUnfollow(profile)} className="flex-1" variant="secondary">
+                        <UserMinus className="w-4 h-4 mr-2" />
+                        Unfollow
                       </Button>
                     )}
                     <Button
@@ -191,6 +283,22 @@ const Discover = () => {
                       <MessageSquare className="w-4 h-4 mr-2" />
                       Message
                     </Button>
+                    <Button
+                      onClick={() => handleBlock(profile)}
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Block ${profile.full_name}`}
+                    >
+                      <Ban className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => setReportTarget({ user: profile })}
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Report ${profile.full_name}`}
+                    >
+                      <Flag className="w-4 h-4" />
+                    </Button>
                   </div>
                 </Card>
               );
@@ -198,12 +306,29 @@ const Discover = () => {
           </div>
         )}
 
-        {!loading && filteredProfiles.length === 0 && (
+        {!showLoading && hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+              {loadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          </div>
+        )}
+
+        {!showLoading && shownProfiles.length === 0 && (
           <div className="text-center py-12">
-            <p className="text-muted-foreground">No profiles found</p>
+            <p className="text-muted-foreground">
+              {isSearching
+                ? 'No profiles found'
+                : trimmedQuery
+                  ? `Type at least ${MIN_PROFILE_SEARCH_LENGTH} characters to search`
+                  : 'Search by name, username or bio to find people'}
+            </p>
           </div>
         )}
       </div>
+
+      {user && <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} userId={user.id} />}
     </MainLayout>
   );
 };
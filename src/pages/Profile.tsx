@@ -8,9 +8,16 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Camera, Loader2, MessageSquare, Users } from 'lucide-react';
+import { Ban, Camera, Loader2, MessageSquare, UserMinus, Users } from 'lucide-react';
 import { toast } from 'sonner';
 import MainLayout from '@/components/MainLayout';
+import KeyBackupCard from '@/components/KeyBackupCard';
+import LinkedDevicesCard from '@/components/LinkedDevicesCard';
+import PrivacySettingsCard from '@/components/PrivacySettingsCard';
+import BlockedAccountsCard from '@/components/BlockedAccountsCard';
+import { NotConnectedError, chatPath, findOrCreateDirectChat } from '@/lib/chatRouting';
+import { blockUser } from '@/lib/blocks';
+import { removeFollower, unfollowUser } from '@/lib/follows';
 
 interface Profile {
   id: string;
@@ -213,8 +220,48 @@ const Profile = () => {
     }
   };
 
-  const handleChatClick = (userId: string) => {
-    navigate(`/chat/${userId}`);
+  const handleChatClick = async (otherUserId: string) => {
+    try {
+      navigate(chatPath(await findOrCreateDirectChat(user!.id, otherUserId)));
+    } catch (error) {
+      console.error('Error opening chat:', error);
+      toast.error(error instanceof NotConnectedError ? error.message : 'Failed to open chat');
+    }
+  };
+
+  const handleRemoveFollower = async (connection: Connection) => {
+    try {
+      await removeFollower(user!.id, connection.id);
+      setFollowers((current) => current.filter((c) => c.id !== connection.id));
+      toast.success(`${connection.full_name} no longer follows you`);
+    } catch (error) {
+      console.error('Error removing follower:', error);
+      toast.error('Failed to remove follower');
+    }
+  };
+
+  const handleUnfollow = async (connection: Connection) => {
+    try {
+      await unfollowUser(user!.id, connection.id);
+      setFollowing((current) => current.filter((c) => c.id !== connection.id));
+      toast.success(`You unfollowed ${connection.full_name}`);
+    } catch (error) {
+      console.error('Error unfollowing user:', error);
+      toast.error('Failed to unfollow');
+    }
+  };
+
+  const handleBlock = async (connection: Connection) => {
+    try {
+      await blockUser(user!.id, connection.id);
+      // Blocking ends the follow in both directions
+      setFollowers((current) => current.filter((c) => c.id !== connection.id));
+      setFollowing((current) => current.filter((c) => c.id !== connection.id));
+      toast.success(`${connection.full_name} was blocked`);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      toast.error('Failed to block');
+    }
   };
 
   if (loading) {
@@ -330,6 +377,18 @@ const Profile = () => {
           </div>
         </Card>
 
+        {/* Privacy */}
+        <PrivacySettingsCard userId={user!.id} />
+
+        {/* Encryption Key Backup */}
+        <KeyBackupCard userId={user!.id} />
+
+        {/* Linked Devices */}
+        <LinkedDevicesCard userId={user!.id} />
+
+        {/* Blocked Accounts */}
+        <BlockedAccountsCard userId={user!.id} />
+
         {/* Connections Tabs */}
         <Card className="p-6">
           <Tabs defaultValue="followers">
@@ -366,14 +425,32 @@ const Profile = () => {
                           </p>
                         </div>
                       </div>
-                      <Button
-                        onClick={() => handleChatClick(follower.id)}
-                        size="sm"
-                        className="bg-gradient-primary"
-                      >
-                        <MessageSquare className="w-4 h-4 mr-2" />
-                        Chat
-                      </Button>
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => handleChatClick(follower.id)}
+                          size="sm"
+                          className="bg-gradient-primary"
+                        >
+                          <MessageSquare className="w-4 h-4 mr-2" />
+                          Chat
+                        </Button>
+                        <Button
+                          onClick={() => handleRemoveFollower(follower)}
+                          size="sm"
+                          variant="outline"
+                        >
+                          <UserMinus className="w-4 h-4 mr-2" />
+                          Remove
+                        </Button>
+                        <Button
+                          onClick={() => handleBlock(follower)}
+                          size="sm"
+                          variant="ghost"
+                          aria-label={`Block ${follower.full_name}`}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
                   </Card>
                 ))
@@ -404,14 +481,32 @@ const Profile = () => {
                           </p>
                         </div>
                       </div>
-                      <Button
-                        onClick={() => handleChatClick(user.id)}
-                        size="sm"
-                        className="bg-gradient-primary"
-                      >
-                        <MessageSquare className="w-4 h-4 mr-2" />
-                        Chat
-                      </Button>
+                      <div className="flex gap-2">
+                        <Button
+                          onClick={() => handleChatClick(user.id)}
+                          size="sm"
+                          className="bg-gradient-primary"
+                        >
+                          <MessageSquare className="w-4 h-4 mr-2" />
+                          Chat
+                        </Button>
+                        <Button
+                          onClick={() => handleUnfollow(user)}
+                          size="sm"
+                          variant="outline"
+                        >
+                          <UserMinus className="w-4 h-4 mr-2" />
+                          Unfollow
+                        </Button>
+                        <Button
+                          onClick={() => handleBlock(user)}
+                          size="sm"
+                          variant="ghost"
+                          aria-label={`Block ${user.full_name}`}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      </div>
                     </div>
                   </Card>
                 ))
@@ -1,24 +1,31 @@
 import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { Check, X, UserPlus } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Check, X, UserPlus, Send, History, Undo2 } from 'lucide-react';
 import { toast } from 'sonner';
 import MainLayout from '@/components/MainLayout';
+import {
+  FollowRequest,
+  FollowStatus,
+  canUndoRejection,
+  fetchFollowRequests,
+  getRequestExpiry,
+  setRequestStatus,
+  unfollowUser,
+} from '@/lib/follows';
 
-interface FollowRequest {
-  id: string;
-  follower: {
-    id: string;
-    username: string;
-    full_name: string;
-    avatar_url: string | null;
-    bio: string | null;
-  };
-  created_at: string;
-}
+const STATUS_BADGES: Record<FollowStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Pending', variant: 'outline' },
+  accepted: { label: 'Accepted', variant: 'default' },
+  rejected: { label: 'Rejected', variant: 'destructive' },
+  expired: { label: 'Expired', variant: 'secondary' },
+};
 
 const Requests = () => {
   const { user } = useAuth();
@@ -26,40 +33,54 @@ const Requests = () => {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
-      fetchRequests();
-    }
+    if (!user) return;
+
+    fetchRequests();
+
+    // Requests answered or withdrawn on another device update without a reload
+    const channel = supabase
+      .channel(`follows:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'follows',
+          filter: `following_id=eq.${user.id}`,
+        },
+        () => fetchRequests()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'follows',
+          filter: `follower_id=eq.${user.id}`,
+        },
+        () => fetchRequests()
+      )
+      // Deletes can't be filtered and only carry the row's id
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'follows',
+        },
+        (payload) => setRequests((current) => current.filter((r) => r.id !== payload.old.id))
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [user]);
 
   const fetchRequests = async () => {
     try {
-      const { data, error } = await supabase
-        .from('follows')
-        .select(`
-          id,
-          created_at,
-          follower:follower_id (
-            id,
-            username,
-            full_name,
-            avatar_url,
-            bio
-          )
-        `)
-        .eq('following_id', user?.id)
-        .eq('status', 'pending')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-
-      const formattedRequests = (data || []).map((req: any) => ({
-        id: req.id,
-        follower: req.follower,
-        created_at: req.created_at,
-      }));
-
-      setRequests(formattedRequests);
-    } catch (error: any) {
+      setRequests(await fetchFollowRequests(user!.id));
+    } catch (error) {
       toast.error('Failed to load follow requests');
       console.error(error);
     } finally {
@@ -67,18 +88,19 @@ const Requests = () => {
     }
   };
 
-  const handleAccept = async (requestId: string, followerId: string) => {
-    try {
-      // Update follow status
-      const { error: followError } = await supabase
-        .from('follows')
-        .update({ status: 'accepted' })
-        .eq('id', requestId);
+  const updateLocalStatus = (requestId: string, status: FollowStatus) => {
+    const updatedAt = new Date().toISOString();
+    setRequests((current) =>
+      current.map((r) => (r.id === requestId ? { ...r, status, updated_at: updatedAt } : r))
+    );
+  };
 
-      if (followError) throw followError;
+  const handleAccept = async (request: FollowRequest) => {
+    try {
+      await setRequestStatus(request.id, 'accepted');
 
       // Create or get chat between users
-      const sortedIds = [user?.id, followerId].sort();
+      const sortedIds = [user?.id, request.profile.id].sort();
       const { data: existingChat } = await supabase
         .from('chats')
         .select('id')
@@ -113,30 +135,93 @@ const Requests = () => {
 
       if (messageError) throw messageError;
 
-      setRequests(requests.filter((r) => r.id !== requestId));
+      updateLocalStatus(request.id, 'accepted');
       toast.success('Follow request accepted! You can now chat.');
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error accepting request:', error);
       toast.error('Failed to accept request');
     }
   };
 
-  const handleReject = async (requestId: string) => {
+  const handleReject = async (request: FollowRequest) => {
     try {
-      const { error } = await supabase
-        .from('follows')
-        .update({ status: 'rejected' })
-        .eq('id', requestId);
+      await setRequestStatus(request.id, 'rejected');
 
-      if (error) throw error;
-
-      setRequests(requests.filter((r) => r.id !== requestId));
-      toast.success('Follow request rejected');
-    } catch (error: any) {
+      updateLocalStatus(request.id, 'rejected');
+      toast.success('Follow request rejected', {
+        action: { label: 'Undo', onClick: () => handleUndoRejection(request) },
+      });
+    } catch (error) {
+      console.error('Error rejecting request:', error);
       toast.error('Failed to reject request');
     }
   };
 
+  const handleUndoRejection = async (request: FollowRequest) => {
+    try {
+      await setRequestStatus(request.id, 'pending');
+
+      updateLocalStatus(request.id, 'pending');
+      toast.success(`${request.profile.full_name}'s request is back in Received`);
+    } catch (error) {
+      console.error('Error undoing rejection:', error);
+      toast.error('Failed to undo rejection');
+    }
+  };
+
+  const handleCancel = async (request: FollowRequest) => {
+    try {
+      await unfollowUser(user!.id, request.profile.id);
+
+      setRequests((current) => current.filter((r) => r.id !== request.id));
+      toast.success('Follow request cancelled');
+    } catch (error) {
+      console.error('Error cancelling request:', error);
+      toast.error('Failed to cancel request');
+    }
+  };
+
+  const received = requests.filter((r) => r.direction === 'received' && r.status === 'pending');
+  const sent = requests.filter((r) => r.direction === 'sent' && r.status === 'pending');
+  const history = requests.filter((r) => r.status !== 'pending');
+
+  const renderProfile = (request: FollowRequest) => (
+    <>
+      <Avatar className="h-16 w-16">
+        <AvatarImage src={request.profile.avatar_url || undefined} />
+        <AvatarFallback className="bg-gradient-primary text-primary-foreground">
+          {request.profile.full_name.substring(0, 2).toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <h3 className="font-semibold">{request.profile.full_name}</h3>
+        <p className="text-sm text-muted-foreground mb-1">
+          @{request.profile.username}
+        </p>
+        {request.profile.bio && (
+          <p className="text-sm text-muted-foreground mb-1">
+            {request.profile.bio}
+          </p>
+        )}
+      </div>
+    </>
+  );
+
+  const renderPendingTimes = (request: FollowRequest) => (
+    <p className="text-xs text-muted-foreground mb-4">
+      Requested {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })} · expires{' '}
+      {formatDistanceToNow(getRequestExpiry(request), { addSuffix: true })}
+    </p>
+  );
+
+  const renderEmpty = (Icon: typeof UserPlus, title: string, description: string) => (
+    <Card className="p-12 text-center">
+      <Icon className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+      <h3 className="text-lg font-semibold mb-2">{title}</h3>
+      <p className="text-muted-foreground">{description}</p>
+    </Card>
+  );
+
   return (
     <MainLayout>
       <div className="space-y-6">
@@ -151,56 +236,92 @@ const Requests = () => {
           <div className="text-center py-8 text-muted-foreground">
             Loading requests...
           </div>
-        ) : requests.length === 0 ? (
-          <Card className="p-12 text-center">
-            <UserPlus className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
-            <h3 className="text-lg font-semibold mb-2">No pending requests</h3>
-            <p className="text-muted-foreground">
-              You'll see follow requests here when people want to connect
-            </p>
-          </Card>
         ) : (
-          <div className="space-y-4">
-            {requests.map((request) => (
-              <Card key={request.id} className="p-6">
-                <div className="flex items-start gap-4">
-                  <Avatar className="h-16 w-16">
-                    <AvatarImage src={request.follower.avatar_url || undefined} />
-                    <AvatarFallback className="bg-gradient-primary text-primary-foreground">
-                      {request.follower.full_name.substring(0, 2).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold">{request.follower.full_name}</h3>
-                    <p className="text-sm text-muted-foreground mb-1">
-                      @{request.follower.username}
-                    </p>
-                    {request.follower.bio && (
-                      <p className="text-sm text-muted-foreground mb-4">
-                        {request.follower.bio}
-                      </p>
-                    )}
-                    <div className="flex gap-2">
-                      <Button
-                        onClick={() => handleAccept(request.id, request.follower.id)}
-                        className="bg-success hover:bg-success/90"
-                      >
-                        <Check className="w-4 h-4 mr-2" />
-                        Accept
-                      </Button>
-                      <Button
-                        onClick={() => handleReject(request.id)}
-                        variant="outline"
-                      >
-                        <X className="w-4 h-4 mr-2" />
-                        Reject
-                      </Button>
-                    </div>
-                  </div>
-                </div>
-              </Card>
-            ))}
-          </div>
+          <Tabs defaultValue="received">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="received">Received ({received.length})</TabsTrigger>
+              <TabsTrigger value="sent">Sent ({sent.length})</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="received" className="space-y-4 mt-4">
+              {received.length === 0
+                ? renderEmpty(UserPlus, 'No pending requests', "You'll see follow requests here when people want to connect")
+                : received.map((request) => (
+                    <Card key={request.id} className="p-6">
+                      <div className="flex items-start gap-4">
+                        {renderProfile(request)}
+                      </div>
+                      <div className="sm:pl-20">
+                        {renderPendingTimes(request)}
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={() => handleAccept(request)}
+                            className="bg-success hover:bg-success/90"
+                          >
+                            <Check className="w-4 h-4 mr-2" />
+                            Accept
+                          </Button>
+                          <Button
+                            onClick={() => handleReject(request)}
+                            variant="outline"
+                          >
+                            <X className="w-4 h-4 mr-2" />
+                            Reject
+                          </Button>
+                        </div>
+                      </div>
+                    </Card>
+                  ))}
+            </TabsContent>
+
+            <TabsContent value="sent" className="space-y-4 mt-4">
+              {sent.length === 0
+                ? renderEmpty(Send, 'No sent requests', 'Requests you send from Discover wait here until they are answered')
+                : sent.map((request) => (
+                    <Card key={request.id} className="p-6">
+                      <div className="flex items-start gap-4">
+                        {renderProfile(request)}
+                      </div>
+                      <div className="sm:pl-20">
+                        {renderPendingTimes(request)}
+                        <Button onClick={() => handleCancel(request)} variant="outline">
+                          <X className="w-4 h-4 mr-2" />
+                          Cancel Request
+                        </Button>
+                      </div>
+                    </Card>
+                  ))}
+            </TabsContent>
+
+            <TabsContent value="history" className="space-y-4 mt-4">
+              {history.length === 0
+                ? renderEmpty(History, 'No history yet', 'Answered and expired requests show up here')
+                : history.map((request) => (
+                    <Card key={request.id} className="p-6">
+                      <div className="flex items-start gap-4">
+                        {renderProfile(request)}
+                        <Badge variant={STATUS_BADGES[request.status].variant}>
+                          {STATUS_BADGES[request.status].label}
+                        </Badge>
+                      </div>
+                      <div className="sm:pl-20 flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground">
+                          {request.direction === 'sent' ? 'You asked to follow them' : 'They asked to follow you'} ·{' '}
+                          {request.status}{' '}
+                          {formatDistanceToNow(new Date(request.updated_at), { addSuffix: true })}
+                        </p>
+                        {canUndoRejection(request) && (
+                          <Button onClick={() => handleUndoRejection(request)} variant="ghost" size="sm">
+                            <Undo2 className="w-4 h-4 mr-2" />
+                            Undo
+                          </Button>
+                        )}
+                      </div>
+                    </Card>
+                  ))}
+            </TabsContent>
+          </Tabs>
         )}
       </div>
     </MainLayout>
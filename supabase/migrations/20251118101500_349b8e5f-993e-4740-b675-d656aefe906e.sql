@@ -0,0 +1,17 @@
+-- Identity public keys for end-to-end encryption (private keys never leave the client)
+ALTER TABLE public.profiles ADD COLUMN public_key text;
+
+-- Encrypted message columns. Rows written before encryption keep their text in
+-- content with key_version NULL, so they can still be told apart and rendered.
+ALTER TABLE public.messages
+  ADD COLUMN ciphertext text,
+  ADD COLUMN nonce text,
+  ADD COLUMN key_version smallint;
+
+ALTER TABLE public.messages ALTER COLUMN content SET DEFAULT '';
+
+-- Encrypted rows must carry ciphertext and nonce and must not leak plaintext
+ALTER TABLE public.messages ADD CONSTRAINT messages_encryption_check CHECK (
+  (key_version IS NULL AND ciphertext IS NULL AND nonce IS NULL)
+  OR (key_version IS NOT NULL AND ciphertext IS NOT NULL AND nonce IS NOT NULL AND content = '')
+);
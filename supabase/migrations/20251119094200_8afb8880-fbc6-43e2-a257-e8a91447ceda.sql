@@ -0,0 +1,77 @@
+-- Signed prekey bundles used to start X3DH sessions
+CREATE TABLE public.prekey_bundles (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  identity_key text NOT NULL,
+  signing_key text NOT NULL,
+  signed_prekey_id integer NOT NULL,
+  signed_prekey text NOT NULL,
+  signed_prekey_signature text NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.prekey_bundles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Prekey bundles are viewable by signed in users"
+  ON public.prekey_bundles FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can publish their own prekey bundle"
+  ON public.prekey_bundles FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own prekey bundle"
+  ON public.prekey_bundles FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- One-time prekeys, each handed out to at most one session initiator
+CREATE TABLE public.one_time_prekeys (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  key_id integer NOT NULL,
+  public_key text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  UNIQUE(user_id, key_id)
+);
+
+ALTER TABLE public.one_time_prekeys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own one-time prekeys"
+  ON public.one_time_prekeys FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can publish their own one-time prekeys"
+  ON public.one_time_prekeys FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own one-time prekeys"
+  ON public.one_time_prekeys FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Hands out (and removes) one of the target's one-time prekeys. Only someone
+-- who shares a chat with the target can drain their pool.
+CREATE OR REPLACE FUNCTION public.claim_one_time_prekey(target_user_id uuid)
+RETURNS TABLE (key_id integer, public_key text)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.one_time_prekeys
+  WHERE id = (
+    SELECT p.id FROM public.one_time_prekeys p
+    WHERE p.user_id = target_user_id
+    AND EXISTS (
+      SELECT 1 FROM public.chats c
+      WHERE (c.user1_id = auth.uid() AND c.user2_id = target_user_id)
+      OR (c.user2_id = auth.uid() AND c.user1_id = target_user_id)
+    )
+    ORDER BY p.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING one_time_prekeys.key_id, one_time_prekeys.public_key;
+$$;
+
+-- Double Ratchet header and the ratchet-sealed content key of each message
+ALTER TABLE public.messages
+  ADD COLUMN ratchet_header jsonb,
+  ADD COLUMN sealed_key text;
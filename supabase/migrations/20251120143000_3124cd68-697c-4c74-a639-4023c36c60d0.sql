@@ -0,0 +1,5 @@
+-- Attachments are now encrypted on the client and fetched through the
+-- authenticated storage API, so chat files no longer get public URLs
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'chat-files';
@@ -0,0 +1,28 @@
+-- Contacts whose safety number a user has compared, with the identity key
+-- they verified so a later key change can be detected
+CREATE TABLE public.contact_verifications (
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  contact_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  verified_key text NOT NULL,
+  verified_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, contact_id)
+);
+
+ALTER TABLE public.contact_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Verification state is private to the user who verified
+CREATE POLICY "Users can view their own verifications"
+  ON public.contact_verifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can verify contacts"
+  ON public.contact_verifications FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own verifications"
+  ON public.contact_verifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their own verifications"
+  ON public.contact_verifications FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- Opt-in encrypted backups of client key material. The blob is encrypted with
+-- a key derived from the user's passphrase, so it is opaque to the server.
+CREATE TABLE public.key_backups (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ciphertext text NOT NULL,
+  nonce text NOT NULL,
+  salt text NOT NULL,
+  kdf text NOT NULL DEFAULT 'PBKDF2-SHA256',
+  iterations integer NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.key_backups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own key backup"
+  ON public.key_backups FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own key backup"
+  ON public.key_backups FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own key backup"
+  ON public.key_backups FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own key backup"
+  ON public.key_backups FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,119 @@
+-- Each browser a user is signed in on is a device with its own prekey
+-- bundle. Devices share the account's identity key, which is copied over
+-- when a new device is linked.
+CREATE TABLE public.devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  identity_key text NOT NULL,
+  signing_key text NOT NULL,
+  signed_prekey_id integer NOT NULL,
+  signed_prekey text NOT NULL,
+  signed_prekey_signature text NOT NULL,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  updated_at timestamp with time zone DEFAULT now() NOT NULL,
+  last_seen_at timestamp with time zone DEFAULT now() NOT NULL,
+  revoked_at timestamp with time zone
+);
+
+CREATE INDEX devices_user_id_idx ON public.devices(user_id);
+
+ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Devices are viewable by signed in users"
+  ON public.devices FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can register their own devices"
+  ON public.devices FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND revoked_at IS NULL);
+
+-- A revoked device stays revoked; it has to be linked again as a new device
+CREATE POLICY "Users can update their own devices"
+  ON public.devices FOR UPDATE
+  USING (auth.uid() = user_id AND revoked_at IS NULL)
+  WITH CHECK (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.devices;
+
+-- Bundles now live on the device rows. Clients republish on their next load.
+DROP TABLE public.prekey_bundles;
+
+DELETE FROM public.one_time_prekeys;
+
+ALTER TABLE public.one_time_prekeys
+  DROP CONSTRAINT one_time_prekeys_user_id_key_id_key,
+  ADD COLUMN device_id uuid REFERENCES public.devices(id) ON DELETE CASCADE NOT NULL,
+  ADD CONSTRAINT one_time_prekeys_device_id_key_id_key UNIQUE (device_id, key_id);
+
+DROP FUNCTION public.claim_one_time_prekey(uuid);
+
+-- Hands out (and removes) one of a device's one-time prekeys. Only the
+-- device's owner or someone who shares a chat with them can drain its pool.
+CREATE OR REPLACE FUNCTION public.claim_one_time_prekey(target_device_id uuid)
+RETURNS TABLE (key_id integer, public_key text)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.one_time_prekeys
+  WHERE id = (
+    SELECT p.id FROM public.one_time_prekeys p
+    JOIN public.devices d ON d.id = p.device_id
+    WHERE p.device_id = target_device_id
+    AND d.revoked_at IS NULL
+    AND (
+      d.user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM public.chats c
+        WHERE (c.user1_id = auth.uid() AND c.user2_id = d.user_id)
+        OR (c.user2_id = auth.uid() AND c.user1_id = d.user_id)
+      )
+    )
+    ORDER BY p.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING one_time_prekeys.key_id, one_time_prekeys.public_key;
+$$;
+
+-- Messages are sealed once per recipient device: envelopes maps each device
+-- id to its ratchet header and sealed content key
+ALTER TABLE public.messages
+  ADD COLUMN sender_device_id uuid REFERENCES public.devices(id) ON DELETE SET NULL,
+  ADD COLUMN envelopes jsonb;
+
+-- Short-lived requests used to copy key material to a newly linked device.
+-- The payload is encrypted to the requesting device's ephemeral key.
+CREATE TABLE public.device_link_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  code_hash text NOT NULL,
+  device_name text NOT NULL,
+  public_key text NOT NULL,
+  approver_public_key text,
+  payload text,
+  nonce text,
+  created_at timestamp with time zone DEFAULT now() NOT NULL,
+  expires_at timestamp with time zone DEFAULT (now() + interval '10 minutes') NOT NULL
+);
+
+ALTER TABLE public.device_link_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own link requests"
+  ON public.device_link_requests FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own link requests"
+  ON public.device_link_requests FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can answer their own link requests"
+  ON public.device_link_requests FOR UPDATE
+  USING (auth.uid() = user_id AND expires_at > now());
+
+CREATE POLICY "Users can delete their own link requests"
+  ON public.device_link_requests FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.device_link_requests;
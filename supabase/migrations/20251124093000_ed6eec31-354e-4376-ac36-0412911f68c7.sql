@@ -0,0 +1,109 @@
+-- Disappearing messages: a per-chat timer stamps new messages with an expiry,
+-- and a scheduled job deletes them once it has passed.
+ALTER TABLE public.chats
+  ADD COLUMN disappearing_seconds integer
+  CONSTRAINT chats_disappearing_seconds_check CHECK (disappearing_seconds IN (3600, 86400, 604800));
+
+-- System rows record events such as timer changes in the conversation. They
+-- carry no user content, so they are not encrypted.
+ALTER TABLE public.messages
+  ADD COLUMN expires_at timestamp with time zone,
+  ADD COLUMN kind text NOT NULL DEFAULT 'message'
+    CONSTRAINT messages_kind_check CHECK (kind IN ('message', 'system')),
+  ADD COLUMN system_event jsonb;
+
+CREATE INDEX messages_expires_at_idx ON public.messages(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Only the timer function below may write system rows
+DROP POLICY "Users can create messages in their chats" ON public.messages;
+
+CREATE POLICY "Users can create messages in their chats"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND kind = 'message'
+    AND EXISTS (
+      SELECT 1 FROM public.chats
+      WHERE chats.id = chat_id
+      AND (chats.user1_id = auth.uid() OR chats.user2_id = auth.uid())
+    )
+  );
+
+-- The expiry comes from the chat's timer, never from the client
+CREATE OR REPLACE FUNCTION public.set_message_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.expires_at := NULL;
+  IF NEW.kind = 'message' THEN
+    SELECT now() + make_interval(secs => chats.disappearing_seconds)
+    INTO NEW.expires_at
+    FROM public.chats
+    WHERE chats.id = NEW.chat_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_expiry
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_message_expiry();
+
+-- Changes a chat's timer and records the change in the conversation
+CREATE OR REPLACE FUNCTION public.set_chat_disappearing_timer(target_chat_id uuid, seconds integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chats
+  SET disappearing_seconds = seconds
+  WHERE id = target_chat_id
+  AND (user1_id = auth.uid() OR user2_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chat not found';
+  END IF;
+
+  INSERT INTO public.messages (chat_id, sender_id, kind, system_event)
+  VALUES (
+    target_chat_id,
+    auth.uid(),
+    'system',
+    jsonb_build_object('type', 'disappearing_timer', 'seconds', seconds)
+  );
+END;
+$$;
+
+-- Deletes expired messages together with their files. Reactions go with
+-- their message through ON DELETE CASCADE.
+CREATE OR REPLACE FUNCTION public.delete_expired_messages()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM storage.objects
+  USING public.messages
+  WHERE messages.expires_at <= now()
+  AND objects.bucket_id = 'chat-files'
+  AND objects.name = messages.media_url;
+
+  DELETE FROM public.messages WHERE expires_at <= now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_expired_messages() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'delete-expired-messages',
+  '* * * * *',
+  $$SELECT public.delete_expired_messages()$$
+);
@@ -0,0 +1,74 @@
+-- Message editing. Senders may replace the ciphertext of their own messages
+-- for a short while; each earlier version is kept as a revision.
+ALTER TABLE public.messages ADD COLUMN edited_at timestamp with time zone;
+
+-- How long after sending a message can still be edited. The client mirrors
+-- this in MESSAGE_EDIT_WINDOW_MINUTES.
+CREATE OR REPLACE FUNCTION public.message_edit_window()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '15 minutes';
+$$;
+
+CREATE TABLE public.message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  ciphertext text NOT NULL,
+  nonce text NOT NULL,
+  -- When this version was written and when an edit replaced it
+  written_at timestamp with time zone NOT NULL,
+  replaced_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX message_revisions_message_id_idx ON public.message_revisions(message_id);
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions in their chats"
+  ON public.message_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.chats ON chats.id = messages.chat_id
+      WHERE messages.id = message_revisions.message_id
+      AND (chats.user1_id = auth.uid() OR chats.user2_id = auth.uid())
+    )
+  );
+
+-- Only the encrypted payload of a message can be changed
+REVOKE UPDATE ON public.messages FROM anon, authenticated;
+GRANT UPDATE (ciphertext, nonce) ON public.messages TO authenticated;
+
+CREATE POLICY "Users can edit their own recent messages"
+  ON public.messages FOR UPDATE
+  USING (
+    auth.uid() = sender_id
+    AND kind = 'message'
+    AND key_version IS NOT NULL
+    AND created_at > now() - public.message_edit_window()
+  )
+  WITH CHECK (auth.uid() = sender_id);
+
+-- Keeps the replaced version and stamps the edit
+CREATE OR REPLACE FUNCTION public.record_message_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ciphertext IS DISTINCT FROM OLD.ciphertext OR NEW.nonce IS DISTINCT FROM OLD.nonce THEN
+    INSERT INTO public.message_revisions (message_id, ciphertext, nonce, written_at)
+    VALUES (OLD.id, OLD.ciphertext, OLD.nonce, COALESCE(OLD.edited_at, OLD.created_at));
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_message_revision
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_message_revision();
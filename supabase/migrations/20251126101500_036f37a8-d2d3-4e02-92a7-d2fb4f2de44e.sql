@@ -0,0 +1,107 @@
+-- "Delete for me" hides a message for one user only
+CREATE TABLE public.message_hidden (
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  message_id uuid REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  hidden_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE public.message_hidden ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view messages they hid"
+  ON public.message_hidden FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can hide messages in their chats"
+  ON public.message_hidden FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.chats ON chats.id = messages.chat_id
+      WHERE messages.id = message_id
+      AND (chats.user1_id = auth.uid() OR chats.user2_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can unhide messages"
+  ON public.message_hidden FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- "Delete for everyone" turns the message into a tombstone that keeps its
+-- place in the timeline but no longer carries any content
+ALTER TABLE public.messages ADD COLUMN deleted_at timestamp with time zone;
+
+-- How long after sending a message can still be deleted for everyone. The
+-- client mirrors this in MESSAGE_DELETE_WINDOW_MINUTES.
+CREATE OR REPLACE FUNCTION public.message_delete_window()
+RETURNS interval
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '1 hour';
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(target_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.messages%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM public.messages
+  WHERE id = target_message_id
+  AND sender_id = auth.uid()
+  AND kind = 'message'
+  AND deleted_at IS NULL
+  AND created_at > now() - public.message_delete_window()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message cannot be deleted';
+  END IF;
+
+  -- Older rows store a public URL instead of the object path
+  IF target.media_url IS NOT NULL THEN
+    DELETE FROM storage.objects
+    WHERE bucket_id = 'chat-files'
+    AND name IN (target.media_url, split_part(target.media_url, '/chat-files/', 2));
+  END IF;
+
+  DELETE FROM public.message_reactions WHERE message_id = target.id;
+  DELETE FROM public.message_revisions WHERE message_id = target.id;
+
+  UPDATE public.messages
+  SET content = '',
+    ciphertext = NULL,
+    nonce = NULL,
+    key_version = NULL,
+    ratchet_header = NULL,
+    sealed_key = NULL,
+    envelopes = NULL,
+    media_url = NULL,
+    deleted_at = now()
+  WHERE id = target.id;
+END;
+$$;
+
+-- Clearing the payload of a deleted message is not an edit
+CREATE OR REPLACE FUNCTION public.record_message_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NULL
+  AND (NEW.ciphertext IS DISTINCT FROM OLD.ciphertext OR NEW.nonce IS DISTINCT FROM OLD.nonce) THEN
+    INSERT INTO public.message_revisions (message_id, ciphertext, nonce, written_at)
+    VALUES (OLD.id, OLD.ciphertext, OLD.nonce, COALESCE(OLD.edited_at, OLD.created_at));
+    NEW.edited_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,28 @@
+-- Quoted replies. There is deliberately no foreign key: once the original is
+-- gone the reply keeps pointing at it and renders as "message deleted".
+ALTER TABLE public.messages ADD COLUMN reply_to_id uuid;
+
+CREATE INDEX messages_reply_to_id_idx ON public.messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+
+-- Replies may only quote a message from the same chat
+CREATE OR REPLACE FUNCTION public.check_reply_target()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE messages.id = NEW.reply_to_id
+    AND messages.chat_id = NEW.chat_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same chat';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_reply_target
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_reply_target();
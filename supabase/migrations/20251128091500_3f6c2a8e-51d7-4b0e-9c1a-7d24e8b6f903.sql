@@ -0,0 +1,4 @@
+-- Chat history is paged newest first on (created_at, id), so each page is a
+-- single range scan of this index. Reactions for a page are already covered
+-- by the (message_id, user_id, emoji) unique constraint.
+CREATE INDEX messages_chat_id_created_at_id_idx ON public.messages(chat_id, created_at DESC, id DESC);
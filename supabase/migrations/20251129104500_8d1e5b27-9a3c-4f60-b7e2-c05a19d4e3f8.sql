@@ -0,0 +1,99 @@
+-- Read receipts. Every user keeps a private read cursor per chat, and shares
+-- delivery and (unless turned off) read progress with the other participant.
+ALTER TABLE public.profiles ADD COLUMN read_receipts_enabled boolean NOT NULL DEFAULT true;
+
+-- How far a user has read in a chat, visible to that user only
+CREATE TABLE public.chat_reads (
+  chat_id uuid REFERENCES public.chats(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  last_read_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  last_read_at timestamp with time zone NOT NULL,
+  PRIMARY KEY (chat_id, user_id)
+);
+
+ALTER TABLE public.chat_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read cursors"
+  ON public.chat_reads FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- What the other participant is shown. read_at only moves while the reader
+-- has read receipts enabled.
+CREATE TABLE public.read_receipts (
+  chat_id uuid REFERENCES public.chats(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  delivered_at timestamp with time zone,
+  read_at timestamp with time zone,
+  PRIMARY KEY (chat_id, user_id)
+);
+
+ALTER TABLE public.read_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view read receipts in their chats"
+  ON public.read_receipts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.chats
+      WHERE chats.id = chat_id
+      AND (chats.user1_id = auth.uid() OR chats.user2_id = auth.uid())
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.read_receipts;
+
+-- Both tables are only written through these functions so cursors never move
+-- backwards
+CREATE OR REPLACE FUNCTION public.mark_chat_read(target_chat_id uuid, read_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  read_at timestamp with time zone;
+BEGIN
+  SELECT messages.created_at INTO read_at
+  FROM public.messages
+  JOIN public.chats ON chats.id = messages.chat_id
+  WHERE messages.id = read_message_id
+  AND messages.chat_id = target_chat_id
+  AND (chats.user1_id = auth.uid() OR chats.user2_id = auth.uid());
+
+  IF read_at IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  INSERT INTO public.chat_reads (chat_id, user_id, last_read_message_id, last_read_at)
+  VALUES (target_chat_id, auth.uid(), read_message_id, read_at)
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET last_read_message_id = EXCLUDED.last_read_message_id,
+    last_read_at = EXCLUDED.last_read_at
+  WHERE chat_reads.last_read_at < EXCLUDED.last_read_at;
+
+  -- Reading a message implies it was delivered
+  INSERT INTO public.read_receipts (chat_id, user_id, delivered_at, read_at)
+  SELECT target_chat_id, auth.uid(), now(),
+    CASE WHEN profiles.read_receipts_enabled THEN read_at END
+  FROM public.profiles
+  WHERE profiles.id = auth.uid()
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET delivered_at = EXCLUDED.delivered_at,
+    read_at = GREATEST(read_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
+
+-- Marks everything received so far as delivered, in one chat or all of them
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(target_chat_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.read_receipts (chat_id, user_id, delivered_at)
+  SELECT chats.id, auth.uid(), now()
+  FROM public.chats
+  WHERE (chats.user1_id = auth.uid() OR chats.user2_id = auth.uid())
+  AND (target_chat_id IS NULL OR chats.id = target_chat_id)
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET delivered_at = EXCLUDED.delivered_at;
+$$;
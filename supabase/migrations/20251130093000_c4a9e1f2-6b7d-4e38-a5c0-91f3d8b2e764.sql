@@ -0,0 +1,163 @@
+-- Unread counts live on each user's read cursor and are kept up to date by
+-- the server, so clients only need to listen to their own chat_reads rows
+ALTER TABLE public.chat_reads
+  ALTER COLUMN last_read_at DROP NOT NULL,
+  ADD COLUMN unread_count integer NOT NULL DEFAULT 0;
+
+-- Messages sent before unread counts existed count as read
+INSERT INTO public.chat_reads (chat_id, user_id, last_read_at)
+SELECT id, user1_id, now() FROM public.chats
+UNION ALL
+SELECT id, user2_id, now() FROM public.chats
+ON CONFLICT (chat_id, user_id) DO NOTHING;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_reads;
+
+-- Messages from others after the user's read cursor that are still visible
+-- to them
+CREATE OR REPLACE FUNCTION public.count_unread_messages(target_chat_id uuid, target_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.messages
+  WHERE messages.chat_id = target_chat_id
+  AND messages.sender_id <> target_user_id
+  AND messages.kind = 'message'
+  AND messages.deleted_at IS NULL
+  AND messages.created_at > COALESCE(
+    (SELECT last_read_at FROM public.chat_reads WHERE chat_id = target_chat_id AND user_id = target_user_id),
+    '-infinity'
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.message_hidden
+    WHERE message_hidden.user_id = target_user_id
+    AND message_hidden.message_id = messages.id
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_unread_messages(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.bump_unread_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.chat_reads (chat_id, user_id, unread_count)
+  SELECT chats.id, CASE WHEN chats.user1_id = NEW.sender_id THEN chats.user2_id ELSE chats.user1_id END, 1
+  FROM public.chats
+  WHERE chats.id = NEW.chat_id
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET unread_count = chat_reads.unread_count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_unread_count
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  WHEN (NEW.kind = 'message')
+  EXECUTE FUNCTION public.bump_unread_count();
+
+-- Messages deleted for everyone or expired before being read stop counting
+CREATE OR REPLACE FUNCTION public.refresh_unread_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_reads
+  SET unread_count = public.count_unread_messages(chat_id, user_id)
+  WHERE chat_id = OLD.chat_id
+  AND user_id <> OLD.sender_id
+  AND unread_count > 0;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_unread_counts_on_delete
+  AFTER DELETE ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.kind = 'message')
+  EXECUTE FUNCTION public.refresh_unread_counts();
+
+CREATE TRIGGER refresh_unread_counts_on_tombstone
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.refresh_unread_counts();
+
+-- Same for messages the user deleted for themselves
+CREATE OR REPLACE FUNCTION public.refresh_unread_count_on_hide()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chat_reads
+  SET unread_count = public.count_unread_messages(chat_reads.chat_id, chat_reads.user_id)
+  FROM public.messages
+  WHERE messages.id = NEW.message_id
+  AND chat_reads.chat_id = messages.chat_id
+  AND chat_reads.user_id = NEW.user_id
+  AND chat_reads.unread_count > 0;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_unread_count_on_hide
+  AFTER INSERT ON public.message_hidden
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_unread_count_on_hide();
+
+-- Reading recounts what is left unread
+CREATE OR REPLACE FUNCTION public.mark_chat_read(target_chat_id uuid, read_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  read_at timestamp with time zone;
+BEGIN
+  SELECT messages.created_at INTO read_at
+  FROM public.messages
+  JOIN public.chats ON chats.id = messages.chat_id
+  WHERE messages.id = read_message_id
+  AND messages.chat_id = target_chat_id
+  AND (chats.user1_id = auth.uid() OR chats.user2_id = auth.uid());
+
+  IF read_at IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  INSERT INTO public.chat_reads (chat_id, user_id, last_read_message_id, last_read_at)
+  VALUES (target_chat_id, auth.uid(), read_message_id, read_at)
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET last_read_message_id = EXCLUDED.last_read_message_id,
+    last_read_at = EXCLUDED.last_read_at
+  WHERE chat_reads.last_read_at IS NULL OR chat_reads.last_read_at < EXCLUDED.last_read_at;
+
+  UPDATE public.chat_reads
+  SET unread_count = public.count_unread_messages(target_chat_id, auth.uid())
+  WHERE chat_id = target_chat_id
+  AND user_id = auth.uid();
+
+  -- Reading a message implies it was delivered
+  INSERT INTO public.read_receipts (chat_id, user_id, delivered_at, read_at)
+  SELECT target_chat_id, auth.uid(), now(),
+    CASE WHEN profiles.read_receipts_enabled THEN read_at END
+  FROM public.profiles
+  WHERE profiles.id = auth.uid()
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET delivered_at = EXCLUDED.delivered_at,
+    read_at = GREATEST(read_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
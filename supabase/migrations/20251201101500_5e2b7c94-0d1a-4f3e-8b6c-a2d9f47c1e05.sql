@@ -0,0 +1,45 @@
+-- Online status comes from Realtime presence; last seen is a heartbeat kept
+-- in its own table so it is only readable through get_last_seen()
+ALTER TABLE public.profiles ADD COLUMN show_last_seen boolean NOT NULL DEFAULT true;
+
+CREATE TABLE public.user_presence (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_seen_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.user_presence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own presence"
+  ON public.user_presence FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can record their own presence"
+  ON public.user_presence FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own presence"
+  ON public.user_presence FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Last seen is shared with chat partners only, and only while both sides
+-- share their own
+CREATE OR REPLACE FUNCTION public.get_last_seen(target_user_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_presence.last_seen_at
+  FROM public.user_presence
+  JOIN public.profiles AS target ON target.id = user_presence.user_id
+  JOIN public.profiles AS viewer ON viewer.id = auth.uid()
+  WHERE user_presence.user_id = target_user_id
+  AND target.show_last_seen
+  AND viewer.show_last_seen
+  AND EXISTS (
+    SELECT 1 FROM public.chats
+    WHERE (chats.user1_id = auth.uid() AND chats.user2_id = target_user_id)
+    OR (chats.user2_id = auth.uid() AND chats.user1_id = target_user_id)
+  );
+$$;
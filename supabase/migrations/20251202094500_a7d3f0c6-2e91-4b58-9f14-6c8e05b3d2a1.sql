@@ -0,0 +1,68 @@
+-- Everything the chat list needs in one round trip: the other participant,
+-- the latest message still visible to the caller and the unread count,
+-- most recently active chat first
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  chat_id uuid,
+  chat_created_at timestamp with time zone,
+  other_user_id uuid,
+  other_username text,
+  other_full_name text,
+  other_avatar_url text,
+  other_public_key text,
+  last_message jsonb,
+  last_activity_at timestamp with time zone,
+  unread_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    chats.id,
+    chats.created_at,
+    other.id,
+    other.username,
+    other.full_name,
+    other.avatar_url,
+    other.public_key,
+    to_jsonb(last_message.*),
+    COALESCE(last_message.created_at, chats.created_at),
+    COALESCE(chat_reads.unread_count, 0)
+  FROM public.chats
+  JOIN public.profiles AS other
+    ON other.id = CASE WHEN chats.user1_id = auth.uid() THEN chats.user2_id ELSE chats.user1_id END
+  LEFT JOIN public.chat_reads
+    ON chat_reads.chat_id = chats.id
+    AND chat_reads.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT
+      messages.id,
+      messages.sender_id,
+      messages.content,
+      messages.created_at,
+      messages.ciphertext,
+      messages.nonce,
+      messages.key_version,
+      messages.ratchet_header,
+      messages.sealed_key,
+      messages.sender_device_id,
+      messages.envelopes,
+      messages.kind,
+      messages.system_event
+    FROM public.messages
+    WHERE messages.chat_id = chats.id
+    AND messages.deleted_at IS NULL
+    AND (messages.expires_at IS NULL OR messages.expires_at > now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_hidden
+      WHERE message_hidden.user_id = auth.uid()
+      AND message_hidden.message_id = messages.id
+    )
+    ORDER BY messages.created_at DESC, messages.id DESC
+    LIMIT 1
+  ) AS last_message ON true
+  WHERE chats.user1_id = auth.uid() OR chats.user2_id = auth.uid()
+  ORDER BY 9 DESC;
+$$;
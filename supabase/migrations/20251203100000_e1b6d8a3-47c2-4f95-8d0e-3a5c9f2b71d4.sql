@@ -0,0 +1,679 @@
+-- Group chats. A chat is either a direct chat between user1_id and user2_id
+-- or a named group; either way chat_members is now the source of truth for
+-- who can read and write it.
+ALTER TABLE public.chats
+  ADD COLUMN type text NOT NULL DEFAULT 'direct' CHECK (type IN ('direct', 'group')),
+  ADD COLUMN name text,
+  ADD COLUMN avatar_url text,
+  ADD COLUMN created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ALTER COLUMN user1_id DROP NOT NULL,
+  ALTER COLUMN user2_id DROP NOT NULL,
+  ADD CONSTRAINT chats_type_participants CHECK (
+    (type = 'direct' AND user1_id IS NOT NULL AND user2_id IS NOT NULL)
+    OR (type = 'group' AND user1_id IS NULL AND user2_id IS NULL AND length(trim(name)) > 0)
+  );
+
+CREATE TABLE public.chat_members (
+  chat_id uuid REFERENCES public.chats(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at timestamp with time zone DEFAULT now() NOT NULL,
+  PRIMARY KEY (chat_id, user_id)
+);
+
+CREATE INDEX chat_members_user_id_idx ON public.chat_members(user_id);
+
+INSERT INTO public.chat_members (chat_id, user_id, joined_at)
+SELECT id, user1_id, created_at FROM public.chats
+UNION ALL
+SELECT id, user2_id, created_at FROM public.chats;
+
+-- Direct chats get their two members as soon as they are created
+CREATE OR REPLACE FUNCTION public.add_direct_chat_members()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.chat_members (chat_id, user_id)
+  VALUES (NEW.id, NEW.user1_id), (NEW.id, NEW.user2_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_direct_chat_members
+  AFTER INSERT ON public.chats
+  FOR EACH ROW
+  WHEN (NEW.type = 'direct')
+  EXECUTE FUNCTION public.add_direct_chat_members();
+
+-- Membership checks used by the policies below. They bypass RLS so that
+-- policies on chat_members itself don't recurse.
+CREATE OR REPLACE FUNCTION public.is_chat_member(target_chat_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_members
+    WHERE chat_id = target_chat_id
+    AND user_id = auth.uid()
+  );
+$$;
+
+-- The caller's role in a chat, or null if they aren't a member
+CREATE OR REPLACE FUNCTION public.chat_role(target_chat_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.chat_members
+  WHERE chat_id = target_chat_id
+  AND user_id = auth.uid();
+$$;
+
+-- Whether the caller is in any chat with the given user
+CREATE OR REPLACE FUNCTION public.shares_chat_with(target_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chat_members mine
+    JOIN public.chat_members theirs ON theirs.chat_id = mine.chat_id
+    WHERE mine.user_id = auth.uid()
+    AND theirs.user_id = target_user_id
+  );
+$$;
+
+-- Whether the caller and the given user follow each other in either direction
+CREATE OR REPLACE FUNCTION public.is_connected_with(target_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE status = 'accepted'
+    AND (
+      (follower_id = auth.uid() AND following_id = target_user_id)
+      OR (follower_id = target_user_id AND following_id = auth.uid())
+    )
+  );
+$$;
+
+ALTER TABLE public.chat_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view the members of their chats"
+  ON public.chat_members FOR SELECT
+  USING (public.is_chat_member(chat_id));
+
+-- Open groups follow membership, name and picture changes live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chats;
+
+-- Chats
+DROP POLICY "Users can view their own chats" ON public.chats;
+DROP POLICY "Users can create chats" ON public.chats;
+
+CREATE POLICY "Members can view their chats"
+  ON public.chats FOR SELECT
+  USING (public.is_chat_member(id));
+
+-- Groups are created through create_group_chat()
+CREATE POLICY "Users can create direct chats"
+  ON public.chats FOR INSERT
+  WITH CHECK (
+    type = 'direct'
+    AND (auth.uid() = user1_id OR auth.uid() = user2_id)
+  );
+
+-- Messages
+DROP POLICY "Users can view messages in their chats" ON public.messages;
+DROP POLICY "Users can create messages in their chats" ON public.messages;
+
+CREATE POLICY "Members can view messages in their chats"
+  ON public.messages FOR SELECT
+  USING (public.is_chat_member(chat_id));
+
+CREATE POLICY "Members can create messages in their chats"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND kind = 'message'
+    AND public.is_chat_member(chat_id)
+  );
+
+-- Reactions
+DROP POLICY "Users can view reactions in their chats" ON public.message_reactions;
+DROP POLICY "Users can add reactions to messages in their chats" ON public.message_reactions;
+
+CREATE POLICY "Members can view reactions in their chats"
+  ON public.message_reactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_reactions.message_id
+      AND public.is_chat_member(messages.chat_id)
+    )
+  );
+
+CREATE POLICY "Members can add reactions in their chats"
+  ON public.message_reactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_reactions.message_id
+      AND public.is_chat_member(messages.chat_id)
+    )
+  );
+
+-- Revisions, hidden messages and receipts
+DROP POLICY "Users can view revisions in their chats" ON public.message_revisions;
+
+CREATE POLICY "Members can view revisions in their chats"
+  ON public.message_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_revisions.message_id
+      AND public.is_chat_member(messages.chat_id)
+    )
+  );
+
+DROP POLICY "Users can hide messages in their chats" ON public.message_hidden;
+
+CREATE POLICY "Members can hide messages in their chats"
+  ON public.message_hidden FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_id
+      AND public.is_chat_member(messages.chat_id)
+    )
+  );
+
+DROP POLICY "Participants can view read receipts in their chats" ON public.read_receipts;
+
+CREATE POLICY "Members can view read receipts in their chats"
+  ON public.read_receipts FOR SELECT
+  USING (public.is_chat_member(chat_id));
+
+-- Chat files
+DROP POLICY "Chat files are accessible to chat participants" ON storage.objects;
+DROP POLICY "Users can upload files to their chats" ON storage.objects;
+DROP POLICY "Users can delete files from their chats" ON storage.objects;
+
+CREATE POLICY "Chat files are accessible to chat members"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'chat-files'
+    AND public.is_chat_member(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Members can upload files to their chats"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'chat-files'
+    AND public.is_chat_member(((storage.foldername(name))[1])::uuid)
+  );
+
+CREATE POLICY "Members can delete files from their chats"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'chat-files'
+    AND public.is_chat_member(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Group avatars live in the public avatars bucket under groups/<chat id>/
+CREATE POLICY "Group admins can upload group avatars"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = 'groups'
+    AND public.chat_role(((storage.foldername(name))[2])::uuid) IN ('owner', 'admin')
+  );
+
+CREATE POLICY "Group admins can delete group avatars"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = 'groups'
+    AND public.chat_role(((storage.foldername(name))[2])::uuid) IN ('owner', 'admin')
+  );
+
+-- Prekeys can be claimed by anyone sharing a chat with the device's owner
+CREATE OR REPLACE FUNCTION public.claim_one_time_prekey(target_device_id uuid)
+RETURNS TABLE (key_id integer, public_key text)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.one_time_prekeys
+  WHERE id = (
+    SELECT p.id FROM public.one_time_prekeys p
+    JOIN public.devices d ON d.id = p.device_id
+    WHERE p.device_id = target_device_id
+    AND d.revoked_at IS NULL
+    AND (d.user_id = auth.uid() OR public.shares_chat_with(d.user_id))
+    ORDER BY p.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING one_time_prekeys.key_id, one_time_prekeys.public_key;
+$$;
+
+-- In groups only admins change the timer
+CREATE OR REPLACE FUNCTION public.set_chat_disappearing_timer(target_chat_id uuid, seconds integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.chats
+  SET disappearing_seconds = seconds
+  WHERE id = target_chat_id
+  AND (
+    (type = 'direct' AND public.is_chat_member(id))
+    OR public.chat_role(id) IN ('owner', 'admin')
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chat not found';
+  END IF;
+
+  INSERT INTO public.messages (chat_id, sender_id, kind, system_event)
+  VALUES (
+    target_chat_id,
+    auth.uid(),
+    'system',
+    jsonb_build_object('type', 'disappearing_timer', 'seconds', seconds)
+  );
+END;
+$$;
+
+-- Unread counts and receipts now cover every member
+CREATE OR REPLACE FUNCTION public.bump_unread_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.chat_reads (chat_id, user_id, unread_count)
+  SELECT chat_members.chat_id, chat_members.user_id, 1
+  FROM public.chat_members
+  WHERE chat_members.chat_id = NEW.chat_id
+  AND chat_members.user_id <> NEW.sender_id
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET unread_count = chat_reads.unread_count + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_chat_read(target_chat_id uuid, read_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  read_at timestamp with time zone;
+BEGIN
+  SELECT messages.created_at INTO read_at
+  FROM public.messages
+  WHERE messages.id = read_message_id
+  AND messages.chat_id = target_chat_id
+  AND public.is_chat_member(target_chat_id);
+
+  IF read_at IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  INSERT INTO public.chat_reads (chat_id, user_id, last_read_message_id, last_read_at)
+  VALUES (target_chat_id, auth.uid(), read_message_id, read_at)
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET last_read_message_id = EXCLUDED.last_read_message_id,
+    last_read_at = EXCLUDED.last_read_at
+  WHERE chat_reads.last_read_at IS NULL OR chat_reads.last_read_at < EXCLUDED.last_read_at;
+
+  UPDATE public.chat_reads
+  SET unread_count = public.count_unread_messages(target_chat_id, auth.uid())
+  WHERE chat_id = target_chat_id
+  AND user_id = auth.uid();
+
+  -- Reading a message implies it was delivered
+  INSERT INTO public.read_receipts (chat_id, user_id, delivered_at, read_at)
+  SELECT target_chat_id, auth.uid(), now(),
+    CASE WHEN profiles.read_receipts_enabled THEN read_at END
+  FROM public.profiles
+  WHERE profiles.id = auth.uid()
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET delivered_at = EXCLUDED.delivered_at,
+    read_at = GREATEST(read_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(target_chat_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.read_receipts (chat_id, user_id, delivered_at)
+  SELECT chat_members.chat_id, auth.uid(), now()
+  FROM public.chat_members
+  WHERE chat_members.user_id = auth.uid()
+  AND (target_chat_id IS NULL OR chat_members.chat_id = target_chat_id)
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET delivered_at = EXCLUDED.delivered_at;
+$$;
+
+-- Former members keep no cursors or receipts behind
+CREATE OR REPLACE FUNCTION public.clear_member_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.chat_reads WHERE chat_id = OLD.chat_id AND user_id = OLD.user_id;
+  DELETE FROM public.read_receipts WHERE chat_id = OLD.chat_id AND user_id = OLD.user_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER clear_member_state
+  AFTER DELETE ON public.chat_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_member_state();
+
+CREATE OR REPLACE FUNCTION public.get_last_seen(target_user_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_presence.last_seen_at
+  FROM public.user_presence
+  JOIN public.profiles AS target ON target.id = user_presence.user_id
+  JOIN public.profiles AS viewer ON viewer.id = auth.uid()
+  WHERE user_presence.user_id = target_user_id
+  AND target.show_last_seen
+  AND viewer.show_last_seen
+  AND public.shares_chat_with(target_user_id);
+$$;
+
+-- The inbox now lists groups too; their other_* columns are null
+DROP FUNCTION public.get_inbox();
+
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  chat_id uuid,
+  chat_type text,
+  chat_name text,
+  chat_avatar_url text,
+  chat_created_at timestamp with time zone,
+  other_user_id uuid,
+  other_username text,
+  other_full_name text,
+  other_avatar_url text,
+  other_public_key text,
+  last_message jsonb,
+  last_activity_at timestamp with time zone,
+  unread_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    chats.id,
+    chats.type,
+    chats.name,
+    chats.avatar_url,
+    chats.created_at,
+    other.id,
+    other.username,
+    other.full_name,
+    other.avatar_url,
+    other.public_key,
+    to_jsonb(last_message.*),
+    COALESCE(last_message.created_at, chats.created_at),
+    COALESCE(chat_reads.unread_count, 0)
+  FROM public.chat_members AS membership
+  JOIN public.chats ON chats.id = membership.chat_id
+  LEFT JOIN public.profiles AS other
+    ON chats.type = 'direct'
+    AND other.id = CASE WHEN chats.user1_id = auth.uid() THEN chats.user2_id ELSE chats.user1_id END
+  LEFT JOIN public.chat_reads
+    ON chat_reads.chat_id = chats.id
+    AND chat_reads.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT
+      messages.id,
+      messages.sender_id,
+      messages.content,
+      messages.created_at,
+      messages.ciphertext,
+      messages.nonce,
+      messages.key_version,
+      messages.ratchet_header,
+      messages.sealed_key,
+      messages.sender_device_id,
+      messages.envelopes,
+      messages.kind,
+      messages.system_event
+    FROM public.messages
+    WHERE messages.chat_id = chats.id
+    AND messages.deleted_at IS NULL
+    AND (messages.expires_at IS NULL OR messages.expires_at > now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.message_hidden
+      WHERE message_hidden.user_id = auth.uid()
+      AND message_hidden.message_id = messages.id
+    )
+    ORDER BY messages.created_at DESC, messages.id DESC
+    LIMIT 1
+  ) AS last_message ON true
+  WHERE membership.user_id = auth.uid()
+  ORDER BY 12 DESC;
+$$;
+
+-- Group management. Every change goes through these functions so the role
+-- rules live in one place.
+CREATE OR REPLACE FUNCTION public.create_group_chat(group_name text, member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_chat_id uuid;
+BEGIN
+  IF length(trim(group_name)) = 0 THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(member_ids) AS member_id
+    WHERE member_id <> auth.uid()
+    AND NOT public.is_connected_with(member_id)
+  ) THEN
+    RAISE EXCEPTION 'Groups can only include your connections';
+  END IF;
+
+  INSERT INTO public.chats (type, name, created_by)
+  VALUES ('group', trim(group_name), auth.uid())
+  RETURNING id INTO new_chat_id;
+
+  INSERT INTO public.chat_members (chat_id, user_id, role)
+  VALUES (new_chat_id, auth.uid(), 'owner');
+
+  INSERT INTO public.chat_members (chat_id, user_id)
+  SELECT DISTINCT new_chat_id, member_id
+  FROM unnest(member_ids) AS member_id
+  WHERE member_id <> auth.uid();
+
+  RETURN new_chat_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_group_details(target_chat_id uuid, new_name text, new_avatar_url text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF length(trim(new_name)) = 0 THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  UPDATE public.chats
+  SET name = trim(new_name),
+    avatar_url = new_avatar_url
+  WHERE id = target_chat_id
+  AND type = 'group'
+  AND public.chat_role(id) IN ('owner', 'admin');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only group admins can change the group';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_group_members(target_chat_id uuid, member_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.chats
+    WHERE id = target_chat_id
+    AND type = 'group'
+    AND public.chat_role(id) IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(member_ids) AS member_id
+    WHERE NOT public.is_connected_with(member_id)
+  ) THEN
+    RAISE EXCEPTION 'You can only add your connections';
+  END IF;
+
+  INSERT INTO public.chat_members (chat_id, user_id)
+  SELECT DISTINCT target_chat_id, member_id
+  FROM unnest(member_ids) AS member_id
+  ON CONFLICT (chat_id, user_id) DO NOTHING;
+END;
+$$;
+
+-- Admins can remove members; only the owner can remove admins
+CREATE OR REPLACE FUNCTION public.remove_group_member(target_chat_id uuid, target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := public.chat_role(target_chat_id);
+BEGIN
+  DELETE FROM public.chat_members
+  USING public.chats
+  WHERE chats.id = chat_members.chat_id
+  AND chats.type = 'group'
+  AND chat_members.chat_id = target_chat_id
+  AND chat_members.user_id = target_user_id
+  AND chat_members.user_id <> auth.uid()
+  AND (
+    (caller_role = 'owner' AND chat_members.role <> 'owner')
+    OR (caller_role = 'admin' AND chat_members.role = 'member')
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You cannot remove this member';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_group_member_role(target_chat_id uuid, target_user_id uuid, new_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF new_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  UPDATE public.chat_members
+  SET role = new_role
+  WHERE chat_id = target_chat_id
+  AND user_id = target_user_id
+  AND role <> 'owner'
+  AND public.chat_role(target_chat_id) = 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the group owner can change roles';
+  END IF;
+END;
+$$;
+
+-- An owner who leaves hands the group to the longest-standing admin, or
+-- failing that member. The last member out deletes the group.
+CREATE OR REPLACE FUNCTION public.leave_group(target_chat_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  left_role text;
+BEGIN
+  DELETE FROM public.chat_members
+  USING public.chats
+  WHERE chats.id = chat_members.chat_id
+  AND chats.type = 'group'
+  AND chat_members.chat_id = target_chat_id
+  AND chat_members.user_id = auth.uid()
+  RETURNING chat_members.role INTO left_role;
+
+  IF left_role IS NULL THEN
+    RAISE EXCEPTION 'You are not in this group';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.chat_members WHERE chat_id = target_chat_id) THEN
+    DELETE FROM public.chats WHERE id = target_chat_id;
+  ELSIF left_role = 'owner' THEN
+    UPDATE public.chat_members
+    SET role = 'owner'
+    WHERE chat_id = target_chat_id
+    AND user_id = (
+      SELECT user_id FROM public.chat_members
+      WHERE chat_id = target_chat_id
+      ORDER BY role = 'admin' DESC, joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
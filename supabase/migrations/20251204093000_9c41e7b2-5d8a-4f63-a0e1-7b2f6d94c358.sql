@@ -0,0 +1,51 @@
+-- Full-text search over message content. Only messages sent before
+-- encryption have their text on the server; encrypted messages are searched
+-- on the device through its own index of what it has decrypted.
+CREATE INDEX messages_content_search_idx
+  ON public.messages
+  USING gin (to_tsvector('simple', content))
+  WHERE key_version IS NULL;
+
+-- Messages matching every word of the query, each word also matching as a
+-- prefix, newest first. Runs as the caller so the messages policies decide
+-- which chats are searched.
+CREATE OR REPLACE FUNCTION public.search_messages(
+  search_query text,
+  target_chat_id uuid DEFAULT NULL,
+  max_results integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  chat_id uuid,
+  sender_id uuid,
+  content text,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & ')) AS tsquery
+    FROM regexp_split_to_table(lower(search_query), '[^[:alnum:]]+') AS term
+    WHERE term <> ''
+  )
+  SELECT messages.id, messages.chat_id, messages.sender_id, messages.content, messages.created_at
+  FROM public.messages, query
+  WHERE query.tsquery IS NOT NULL
+    AND messages.key_version IS NULL
+    AND to_tsvector('simple', messages.content) @@ query.tsquery
+    AND messages.kind = 'message'
+    AND messages.deleted_at IS NULL
+    AND (messages.expires_at IS NULL OR messages.expires_at > now())
+    AND (target_chat_id IS NULL OR messages.chat_id = target_chat_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.message_hidden
+      WHERE message_hidden.message_id = messages.id
+        AND message_hidden.user_id = auth.uid()
+    )
+  ORDER BY messages.created_at DESC
+  LIMIT LEAST(max_results, 100);
+$$;
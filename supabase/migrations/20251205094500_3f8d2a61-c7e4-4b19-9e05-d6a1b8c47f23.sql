@@ -0,0 +1,152 @@
+-- People search runs on the server, one page at a time, instead of the
+-- browser downloading every profile. Profiles themselves are now only
+-- readable by people who already know each other.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE INDEX profiles_search_trgm_idx
+  ON public.profiles
+  USING gin ((username || ' ' || full_name || ' ' || COALESCE(bio, '')) extensions.gin_trgm_ops);
+
+-- Whether a follow request exists between the caller and the given user, in
+-- either direction and in any state
+CREATE OR REPLACE FUNCTION public.has_follow_with(target_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.follows
+    WHERE (follower_id = auth.uid() AND following_id = target_user_id)
+    OR (follower_id = target_user_id AND following_id = auth.uid())
+  );
+$$;
+
+DROP POLICY "Profiles are viewable by everyone" ON public.profiles;
+
+CREATE POLICY "Profiles are viewable by people who know each other"
+  ON public.profiles FOR SELECT
+  USING (
+    auth.uid() = id
+    OR public.shares_chat_with(id)
+    OR public.has_follow_with(id)
+  );
+
+-- Searches per user in the current one-minute window
+CREATE TABLE public.search_rate_limits (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  window_start timestamp with time zone NOT NULL DEFAULT now(),
+  request_count integer NOT NULL DEFAULT 0
+);
+
+-- Only written by search_profiles()
+ALTER TABLE public.search_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Profiles whose username, name or bio contain the query, or come close to
+-- it, best match first. Queries shorter than two characters return nothing,
+-- and more than 30 searches a minute are refused with PT429, which PostgREST
+-- answers with HTTP 429.
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  search_query text,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  normalized_query text := lower(trim(search_query));
+  pattern text;
+  recent_searches integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF length(normalized_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.search_rate_limits AS limits (user_id, window_start, request_count)
+  VALUES (auth.uid(), now(), 1)
+  ON CONFLICT (user_id) DO UPDATE SET
+    window_start = CASE
+      WHEN limits.window_start < now() - interval '1 minute' THEN now()
+      ELSE limits.window_start
+    END,
+    request_count = CASE
+      WHEN limits.window_start < now() - interval '1 minute' THEN 1
+      ELSE limits.request_count + 1
+    END
+  RETURNING limits.request_count INTO recent_searches;
+
+  IF recent_searches > 30 THEN
+    RAISE EXCEPTION 'Too many searches, try again in a minute' USING ERRCODE = 'PT429';
+  END IF;
+
+  pattern := '%' || replace(replace(replace(normalized_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  RETURN QUERY
+  SELECT p.id, p.username, p.full_name, p.avatar_url, p.bio
+  FROM public.profiles p
+  WHERE p.id <> auth.uid()
+    AND (
+      (p.username || ' ' || p.full_name || ' ' || COALESCE(p.bio, '')) ILIKE pattern
+      OR normalized_query <% (p.username || ' ' || p.full_name || ' ' || COALESCE(p.bio, ''))
+    )
+  ORDER BY
+    (lower(p.username) LIKE normalized_query || '%') DESC,
+    word_similarity(normalized_query, p.username || ' ' || p.full_name || ' ' || COALESCE(p.bio, '')) DESC,
+    p.username
+  LIMIT LEAST(result_limit, 50)
+  OFFSET GREATEST(result_offset, 0);
+END;
+$$;
+
+-- People to show before anything is typed: those followed by the caller's
+-- connections, most mutual connections first, topped up with new members.
+-- Anyone the caller already has a follow request with is left out.
+CREATE OR REPLACE FUNCTION public.suggest_profiles(max_results integer DEFAULT 12)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text,
+  mutual_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH connections AS (
+    SELECT CASE WHEN follower_id = auth.uid() THEN following_id ELSE follower_id END AS user_id
+    FROM public.follows
+    WHERE status = 'accepted'
+    AND (follower_id = auth.uid() OR following_id = auth.uid())
+  ),
+  candidates AS (
+    SELECT follows.following_id AS user_id, count(*)::integer AS mutual_count
+    FROM public.follows
+    JOIN connections ON connections.user_id = follows.follower_id
+    WHERE follows.status = 'accepted'
+    GROUP BY follows.following_id
+  )
+  SELECT p.id, p.username, p.full_name, p.avatar_url, p.bio, COALESCE(candidates.mutual_count, 0)
+  FROM public.profiles p
+  LEFT JOIN candidates ON candidates.user_id = p.id
+  WHERE p.id <> auth.uid()
+    AND NOT public.has_follow_with(p.id)
+  ORDER BY COALESCE(candidates.mutual_count, 0) DESC, p.created_at DESC
+  LIMIT LEAST(max_results, 50);
+$$;
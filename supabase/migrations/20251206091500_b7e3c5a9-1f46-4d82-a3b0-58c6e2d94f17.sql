@@ -0,0 +1,247 @@
+-- Blocking someone ends any follow between the two and keeps either from
+-- sending a new request, makes a direct chat between them read-only for
+-- both, and hides both from each other's people search. Group chats they
+-- share are unaffected.
+CREATE TABLE public.blocks (
+  blocker_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  blocked_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+
+-- Nobody can see who blocked them
+CREATE POLICY "Users can view the accounts they blocked"
+  ON public.blocks FOR SELECT
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block others"
+  ON public.blocks FOR INSERT
+  WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock others"
+  ON public.blocks FOR DELETE
+  USING (auth.uid() = blocker_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.blocks;
+
+-- Whether either of the caller and the given user has blocked the other
+CREATE OR REPLACE FUNCTION public.has_block_with(target_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.blocks
+    WHERE (blocker_id = auth.uid() AND blocked_id = target_user_id)
+    OR (blocker_id = target_user_id AND blocked_id = auth.uid())
+  );
+$$;
+
+-- Whether the chat is a direct chat whose participants have a block between them
+CREATE OR REPLACE FUNCTION public.is_chat_blocked(target_chat_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chats
+    JOIN public.blocks
+      ON (blocks.blocker_id = chats.user1_id AND blocks.blocked_id = chats.user2_id)
+      OR (blocks.blocker_id = chats.user2_id AND blocks.blocked_id = chats.user1_id)
+    WHERE chats.id = target_chat_id
+    AND chats.type = 'direct'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_follows_on_block()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+  OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER end_follows_on_block
+  AFTER INSERT ON public.blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.end_follows_on_block();
+
+-- Follow requests
+DROP POLICY "Users can create follow requests" ON public.follows;
+
+CREATE POLICY "Users can create follow requests"
+  ON public.follows FOR INSERT
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT public.has_block_with(following_id)
+  );
+
+-- Messages, reactions and attachments
+DROP POLICY "Members can create messages in their chats" ON public.messages;
+
+CREATE POLICY "Members can create messages in their chats"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND kind = 'message'
+    AND public.is_chat_member(chat_id)
+    AND NOT public.is_chat_blocked(chat_id)
+  );
+
+DROP POLICY "Members can add reactions in their chats" ON public.message_reactions;
+
+CREATE POLICY "Members can add reactions in their chats"
+  ON public.message_reactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_reactions.message_id
+      AND public.is_chat_member(messages.chat_id)
+      AND NOT public.is_chat_blocked(messages.chat_id)
+    )
+  );
+
+DROP POLICY "Members can upload files to their chats" ON storage.objects;
+
+CREATE POLICY "Members can upload files to their chats"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'chat-files'
+    AND public.is_chat_member(((storage.foldername(name))[1])::uuid)
+    AND NOT public.is_chat_blocked(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Blocking ends the follow, so blocked accounts stay visible to the blocker
+-- through the block itself, for the list of blocked accounts
+DROP POLICY "Profiles are viewable by people who know each other" ON public.profiles;
+
+CREATE POLICY "Profiles are viewable by people who know each other"
+  ON public.profiles FOR SELECT
+  USING (
+    auth.uid() = id
+    OR public.shares_chat_with(id)
+    OR public.has_follow_with(id)
+    OR EXISTS (
+      SELECT 1 FROM public.blocks
+      WHERE blocks.blocker_id = auth.uid()
+      AND blocks.blocked_id = profiles.id
+    )
+  );
+
+-- People search leaves out anyone with a block either way
+CREATE OR REPLACE FUNCTION public.search_profiles(
+  search_query text,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  normalized_query text := lower(trim(search_query));
+  pattern text;
+  recent_searches integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF length(normalized_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.search_rate_limits AS limits (user_id, window_start, request_count)
+  VALUES (auth.uid(), now(), 1)
+  ON CONFLICT (user_id) DO UPDATE SET
+    window_start = CASE
+      WHEN limits.window_start < now() - interval '1 minute' THEN now()
+      ELSE limits.window_start
+    END,
+    request_count = CASE
+      WHEN limits.window_start < now() - interval '1 minute' THEN 1
+      ELSE limits.request_count + 1
+    END
+  RETURNING limits.request_count INTO recent_searches;
+
+  IF recent_searches > 30 THEN
+    RAISE EXCEPTION 'Too many searches, try again in a minute' USING ERRCODE = 'PT429';
+  END IF;
+
+  pattern := '%' || replace(replace(replace(normalized_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  RETURN QUERY
+  SELECT p.id, p.username, p.full_name, p.avatar_url, p.bio
+  FROM public.profiles p
+  WHERE p.id <> auth.uid()
+    AND NOT public.has_block_with(p.id)
+    AND (
+      (p.username || ' ' || p.full_name || ' ' || COALESCE(p.bio, '')) ILIKE pattern
+      OR normalized_query <% (p.username || ' ' || p.full_name || ' ' || COALESCE(p.bio, ''))
+    )
+  ORDER BY
+    (lower(p.username) LIKE normalized_query || '%') DESC,
+    word_similarity(normalized_query, p.username || ' ' || p.full_name || ' ' || COALESCE(p.bio, '')) DESC,
+    p.username
+  LIMIT LEAST(result_limit, 50)
+  OFFSET GREATEST(result_offset, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.suggest_profiles(max_results integer DEFAULT 12)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  bio text,
+  mutual_count integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH connections AS (
+    SELECT CASE WHEN follower_id = auth.uid() THEN following_id ELSE follower_id END AS user_id
+    FROM public.follows
+    WHERE status = 'accepted'
+    AND (follower_id = auth.uid() OR following_id = auth.uid())
+  ),
+  candidates AS (
+    SELECT follows.following_id AS user_id, count(*)::integer AS mutual_count
+    FROM public.follows
+    JOIN connections ON connections.user_id = follows.follower_id
+    WHERE follows.status = 'accepted'
+    GROUP BY follows.following_id
+  )
+  SELECT p.id, p.username, p.full_name, p.avatar_url, p.bio, COALESCE(candidates.mutual_count, 0)
+  FROM public.profiles p
+  LEFT JOIN candidates ON candidates.user_id = p.id
+  WHERE p.id <> auth.uid()
+    AND NOT public.has_follow_with(p.id)
+    AND NOT public.has_block_with(p.id)
+  ORDER BY COALESCE(candidates.mutual_count, 0) DESC, p.created_at DESC
+  LIMIT LEAST(max_results, 50);
+$$;
@@ -0,0 +1,164 @@
+-- Abuse reports and the moderators who handle them. Messages are end-to-end
+-- encrypted, so a report only includes a message's text when the reporter
+-- chooses to attach what their device decrypted.
+
+-- Moderators are appointed directly in the database
+CREATE TABLE public.moderators (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can see whether they are a moderator"
+  ON public.moderators FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.moderators WHERE user_id = auth.uid());
+$$;
+
+-- Moderators see every profile, so reports show who is involved
+CREATE POLICY "Moderators can view all profiles"
+  ON public.profiles FOR SELECT
+  USING (public.is_moderator());
+
+-- Suspended accounts can still sign in and read, but not message anyone or
+-- send follow requests
+ALTER TABLE public.profiles
+  ADD COLUMN suspended_at timestamp with time zone,
+  ADD COLUMN suspension_reason text;
+
+-- Users can update their own profile, but only moderators change suspensions
+CREATE OR REPLACE FUNCTION public.protect_suspension()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+    OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason)
+    AND NOT public.is_moderator()
+  THEN
+    RAISE EXCEPTION 'Only moderators can change suspensions';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_suspension
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_suspension();
+
+CREATE OR REPLACE FUNCTION public.is_suspended()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND suspended_at IS NOT NULL);
+$$;
+
+DROP POLICY "Members can create messages in their chats" ON public.messages;
+
+CREATE POLICY "Members can create messages in their chats"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND kind = 'message'
+    AND public.is_chat_member(chat_id)
+    AND NOT public.is_chat_blocked(chat_id)
+    AND NOT public.is_suspended()
+  );
+
+DROP POLICY "Users can create follow requests" ON public.follows;
+
+CREATE POLICY "Users can create follow requests"
+  ON public.follows FOR INSERT
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT public.has_block_with(following_id)
+    AND NOT public.is_suspended()
+  );
+
+CREATE TABLE public.reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  reported_user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  -- Storage path of the reported message's attachment, which stays encrypted
+  attachment_path text,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate', 'impersonation', 'inappropriate', 'other')),
+  details text CHECK (char_length(details) <= 2000),
+  -- Decrypted text the reporter chose to share
+  message_text text CHECK (char_length(message_text) <= 10000),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'resolved', 'dismissed')),
+  resolution_note text,
+  resolved_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CHECK (reporter_id IS NULL OR reporter_id <> reported_user_id)
+);
+
+CREATE INDEX reports_status_created_at_idx ON public.reports (status, created_at DESC);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+-- A reported message has to be one the reported user sent to a chat the
+-- reporter is in
+CREATE POLICY "Users can report others"
+  ON public.reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'open'
+    AND resolved_by IS NULL
+    AND (
+      message_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.messages
+        WHERE messages.id = reports.message_id
+        AND messages.sender_id = reports.reported_user_id
+        AND public.is_chat_member(messages.chat_id)
+      )
+    )
+  );
+
+CREATE POLICY "Users can view their own reports"
+  ON public.reports FOR SELECT
+  USING (auth.uid() = reporter_id OR public.is_moderator());
+
+CREATE POLICY "Moderators can update reports"
+  ON public.reports FOR UPDATE
+  USING (public.is_moderator());
+
+-- Suspends an account, or lifts the suspension when reason is null
+CREATE OR REPLACE FUNCTION public.set_user_suspension(target_user_id uuid, reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can suspend accounts';
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Moderators cannot suspend themselves';
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    suspended_at = CASE WHEN reason IS NULL THEN NULL ELSE now() END,
+    suspension_reason = reason
+  WHERE id = target_user_id;
+END;
+$$;
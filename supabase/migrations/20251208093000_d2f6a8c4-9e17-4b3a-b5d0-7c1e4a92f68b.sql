@@ -0,0 +1,179 @@
+-- Roles replace the moderators table. Admins can do everything moderators
+-- can and also manage accounts from the admin console.
+CREATE TYPE public.app_role AS ENUM ('admin', 'moderator');
+
+-- Roles are granted directly in the database
+CREATE TABLE public.user_roles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  role public.app_role NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Checked without going through user_roles' own policies, so it can be used
+-- in the policies of any table
+CREATE OR REPLACE FUNCTION public.has_role(_user_id uuid, _role public.app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role);
+$$;
+
+CREATE POLICY "Users can view their own roles"
+  ON public.user_roles FOR SELECT
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'moderator' FROM public.moderators;
+
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(auth.uid(), 'moderator') OR public.has_role(auth.uid(), 'admin');
+$$;
+
+DROP TABLE public.moderators;
+
+-- Suspends an account, or lifts the suspension when reason is null. Admins
+-- can't be suspended.
+CREATE OR REPLACE FUNCTION public.set_user_suspension(target_user_id uuid, reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can suspend accounts';
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Moderators cannot suspend themselves';
+  END IF;
+
+  IF reason IS NOT NULL AND public.has_role(target_user_id, 'admin') THEN
+    RAISE EXCEPTION 'Admins cannot be suspended';
+  END IF;
+
+  UPDATE public.profiles
+  SET
+    suspended_at = CASE WHEN reason IS NULL THEN NULL ELSE now() END,
+    suspension_reason = reason
+  WHERE id = target_user_id;
+END;
+$$;
+
+-- Suspended users can still sign in to see why, but every write they make is
+-- refused. Restrictive policies apply on top of each table's own policies.
+-- Tables added later need the same three policies.
+DO $$
+DECLARE
+  target text;
+BEGIN
+  FOREACH target IN ARRAY ARRAY[
+    'blocks',
+    'chat_members',
+    'chat_reads',
+    'chats',
+    'contact_verifications',
+    'device_link_requests',
+    'devices',
+    'follows',
+    'key_backups',
+    'message_hidden',
+    'message_reactions',
+    'message_revisions',
+    'messages',
+    'one_time_prekeys',
+    'profiles',
+    'read_receipts',
+    'reports',
+    'user_presence'
+  ]
+  LOOP
+    EXECUTE format(
+      'CREATE POLICY "Suspended users cannot insert" ON public.%I AS RESTRICTIVE FOR INSERT TO authenticated WITH CHECK (NOT public.is_suspended())',
+      target
+    );
+    EXECUTE format(
+      'CREATE POLICY "Suspended users cannot update" ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated USING (NOT public.is_suspended())',
+      target
+    );
+    EXECUTE format(
+      'CREATE POLICY "Suspended users cannot delete" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated USING (NOT public.is_suspended())',
+      target
+    );
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Suspended users cannot upload"
+  ON storage.objects AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (NOT public.is_suspended());
+
+CREATE POLICY "Suspended users cannot update files"
+  ON storage.objects AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (NOT public.is_suspended());
+
+CREATE POLICY "Suspended users cannot delete files"
+  ON storage.objects AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (NOT public.is_suspended());
+
+-- One page of accounts for the admin console, newest first, with the total
+-- number of matches for paging
+CREATE OR REPLACE FUNCTION public.admin_list_users(
+  search_query text DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  created_at timestamp with time zone,
+  suspended_at timestamp with time zone,
+  suspension_reason text,
+  roles public.app_role[],
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pattern text := '%' || replace(replace(replace(COALESCE(trim(search_query), ''), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can list accounts';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.created_at,
+    p.suspended_at,
+    p.suspension_reason,
+    ARRAY(SELECT r.role FROM public.user_roles r WHERE r.user_id = p.id ORDER BY r.role),
+    count(*) OVER ()
+  FROM public.profiles p
+  WHERE p.username ILIKE pattern OR p.full_name ILIKE pattern
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(result_limit, 100)
+  OFFSET GREATEST(result_offset, 0);
+END;
+$$;
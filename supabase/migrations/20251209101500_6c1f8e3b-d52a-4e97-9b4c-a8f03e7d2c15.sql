@@ -0,0 +1,69 @@
+-- Ending a connection: unfollowing, withdrawing a pending request or removing
+-- a follower. Rejected requests stay, so they can't simply be sent again.
+CREATE POLICY "Users can delete their follows"
+  ON public.follows FOR DELETE
+  USING (
+    (auth.uid() = follower_id AND status IN ('pending', 'accepted'))
+    OR (auth.uid() = following_id AND status = 'accepted')
+  );
+
+-- Whether the chat is a group, or a direct chat whose participants are still
+-- connected. Direct chats outlive the connection as read-only history.
+CREATE OR REPLACE FUNCTION public.is_chat_connected(target_chat_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.chats
+    WHERE chats.id = target_chat_id
+    AND (
+      chats.type <> 'direct'
+      OR public.is_connected_with(
+        CASE WHEN chats.user1_id = auth.uid() THEN chats.user2_id ELSE chats.user1_id END
+      )
+    )
+  );
+$$;
+
+-- Messages, reactions and attachments
+DROP POLICY "Members can create messages in their chats" ON public.messages;
+
+CREATE POLICY "Members can create messages in their chats"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND kind = 'message'
+    AND public.is_chat_member(chat_id)
+    AND public.is_chat_connected(chat_id)
+    AND NOT public.is_chat_blocked(chat_id)
+    AND NOT public.is_suspended()
+  );
+
+DROP POLICY "Members can add reactions in their chats" ON public.message_reactions;
+
+CREATE POLICY "Members can add reactions in their chats"
+  ON public.message_reactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_reactions.message_id
+      AND public.is_chat_member(messages.chat_id)
+      AND public.is_chat_connected(messages.chat_id)
+      AND NOT public.is_chat_blocked(messages.chat_id)
+    )
+  );
+
+DROP POLICY "Members can upload files to their chats" ON storage.objects;
+
+CREATE POLICY "Members can upload files to their chats"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'chat-files'
+    AND public.is_chat_member(((storage.foldername(name))[1])::uuid)
+    AND public.is_chat_connected(((storage.foldername(name))[1])::uuid)
+    AND NOT public.is_chat_blocked(((storage.foldername(name))[1])::uuid)
+  );
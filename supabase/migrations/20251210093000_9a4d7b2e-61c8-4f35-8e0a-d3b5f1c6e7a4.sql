@@ -0,0 +1,67 @@
+-- Follow requests that go unanswered expire after 30 days
+ALTER TABLE public.follows DROP CONSTRAINT follows_status_check;
+
+ALTER TABLE public.follows
+  ADD CONSTRAINT follows_status_check
+  CHECK (status IN ('pending', 'accepted', 'rejected', 'expired'));
+
+-- Pending requests can be answered once. A rejection can be taken back for
+-- ten minutes, which puts the request back in the queue.
+CREATE OR REPLACE FUNCTION public.check_follow_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status OR OLD.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'rejected' AND NEW.status = 'pending' THEN
+    IF OLD.updated_at < now() - interval '10 minutes' THEN
+      RAISE EXCEPTION 'This rejection can no longer be undone';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'A % follow request cannot become %', OLD.status, NEW.status;
+END;
+$$;
+
+CREATE TRIGGER check_follow_transition
+  BEFORE UPDATE OF status ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_follow_transition();
+
+-- Expired requests can be cleared by whoever sent them, so they can ask again
+DROP POLICY "Users can delete their follows" ON public.follows;
+
+CREATE POLICY "Users can delete their follows"
+  ON public.follows FOR DELETE
+  USING (
+    (auth.uid() = follower_id AND status IN ('pending', 'accepted', 'expired'))
+    OR (auth.uid() = following_id AND status = 'accepted')
+  );
+
+-- A request counts as waiting since it was sent, or since a rejection was undone
+CREATE OR REPLACE FUNCTION public.expire_follow_requests()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.follows
+  SET status = 'expired'
+  WHERE status = 'pending'
+  AND updated_at <= now() - interval '30 days';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_follow_requests() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-follow-requests',
+  '0 3 * * *',
+  $$SELECT public.expire_follow_requests()$$
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.follows;
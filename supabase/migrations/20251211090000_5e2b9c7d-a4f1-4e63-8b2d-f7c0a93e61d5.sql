@@ -0,0 +1,334 @@
+-- Restrictive policies don't reach SECURITY DEFINER functions, so every
+-- function that writes on the caller's behalf refuses suspended accounts itself
+CREATE OR REPLACE FUNCTION public.create_group_chat(group_name text, member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_chat_id uuid;
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  IF length(trim(group_name)) = 0 THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(member_ids) AS member_id
+    WHERE member_id <> auth.uid()
+    AND NOT public.is_connected_with(member_id)
+  ) THEN
+    RAISE EXCEPTION 'Groups can only include your connections';
+  END IF;
+
+  INSERT INTO public.chats (type, name, created_by)
+  VALUES ('group', trim(group_name), auth.uid())
+  RETURNING id INTO new_chat_id;
+
+  INSERT INTO public.chat_members (chat_id, user_id, role)
+  VALUES (new_chat_id, auth.uid(), 'owner');
+
+  INSERT INTO public.chat_members (chat_id, user_id)
+  SELECT DISTINCT new_chat_id, member_id
+  FROM unnest(member_ids) AS member_id
+  WHERE member_id <> auth.uid();
+
+  RETURN new_chat_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_group_details(target_chat_id uuid, new_name text, new_avatar_url text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  IF length(trim(new_name)) = 0 THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  UPDATE public.chats
+  SET name = trim(new_name),
+    avatar_url = new_avatar_url
+  WHERE id = target_chat_id
+  AND type = 'group'
+  AND public.chat_role(id) IN ('owner', 'admin');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only group admins can change the group';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_group_members(target_chat_id uuid, member_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.chats
+    WHERE id = target_chat_id
+    AND type = 'group'
+    AND public.chat_role(id) IN ('owner', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only group admins can add members';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(member_ids) AS member_id
+    WHERE NOT public.is_connected_with(member_id)
+  ) THEN
+    RAISE EXCEPTION 'You can only add your connections';
+  END IF;
+
+  INSERT INTO public.chat_members (chat_id, user_id)
+  SELECT DISTINCT target_chat_id, member_id
+  FROM unnest(member_ids) AS member_id
+  ON CONFLICT (chat_id, user_id) DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.remove_group_member(target_chat_id uuid, target_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_role text := public.chat_role(target_chat_id);
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  DELETE FROM public.chat_members
+  USING public.chats
+  WHERE chats.id = chat_members.chat_id
+  AND chats.type = 'group'
+  AND chat_members.chat_id = target_chat_id
+  AND chat_members.user_id = target_user_id
+  AND chat_members.user_id <> auth.uid()
+  AND (
+    (caller_role = 'owner' AND chat_members.role <> 'owner')
+    OR (caller_role = 'admin' AND chat_members.role = 'member')
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You cannot remove this member';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_group_member_role(target_chat_id uuid, target_user_id uuid, new_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  IF new_role NOT IN ('admin', 'member') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  UPDATE public.chat_members
+  SET role = new_role
+  WHERE chat_id = target_chat_id
+  AND user_id = target_user_id
+  AND role <> 'owner'
+  AND public.chat_role(target_chat_id) = 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the group owner can change roles';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.leave_group(target_chat_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  left_role text;
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  DELETE FROM public.chat_members
+  USING public.chats
+  WHERE chats.id = chat_members.chat_id
+  AND chats.type = 'group'
+  AND chat_members.chat_id = target_chat_id
+  AND chat_members.user_id = auth.uid()
+  RETURNING chat_members.role INTO left_role;
+
+  IF left_role IS NULL THEN
+    RAISE EXCEPTION 'You are not in this group';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.chat_members WHERE chat_id = target_chat_id) THEN
+    DELETE FROM public.chats WHERE id = target_chat_id;
+  ELSIF left_role = 'owner' THEN
+    UPDATE public.chat_members
+    SET role = 'owner'
+    WHERE chat_id = target_chat_id
+    AND user_id = (
+      SELECT user_id FROM public.chat_members
+      WHERE chat_id = target_chat_id
+      ORDER BY role = 'admin' DESC, joined_at
+      LIMIT 1
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_chat_disappearing_timer(target_chat_id uuid, seconds integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  UPDATE public.chats
+  SET disappearing_seconds = seconds
+  WHERE id = target_chat_id
+  AND (
+    (type = 'direct' AND public.is_chat_member(id))
+    OR public.chat_role(id) IN ('owner', 'admin')
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chat not found';
+  END IF;
+
+  INSERT INTO public.messages (chat_id, sender_id, kind, system_event)
+  VALUES (
+    target_chat_id,
+    auth.uid(),
+    'system',
+    jsonb_build_object('type', 'disappearing_timer', 'seconds', seconds)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_chat_read(target_chat_id uuid, read_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  read_at timestamp with time zone;
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  SELECT messages.created_at INTO read_at
+  FROM public.messages
+  WHERE messages.id = read_message_id
+  AND messages.chat_id = target_chat_id
+  AND public.is_chat_member(target_chat_id);
+
+  IF read_at IS NULL THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  INSERT INTO public.chat_reads (chat_id, user_id, last_read_message_id, last_read_at)
+  VALUES (target_chat_id, auth.uid(), read_message_id, read_at)
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET last_read_message_id = EXCLUDED.last_read_message_id,
+    last_read_at = EXCLUDED.last_read_at
+  WHERE chat_reads.last_read_at IS NULL OR chat_reads.last_read_at < EXCLUDED.last_read_at;
+
+  UPDATE public.chat_reads
+  SET unread_count = public.count_unread_messages(target_chat_id, auth.uid())
+  WHERE chat_id = target_chat_id
+  AND user_id = auth.uid();
+
+  -- Reading a message implies it was delivered
+  INSERT INTO public.read_receipts (chat_id, user_id, delivered_at, read_at)
+  SELECT target_chat_id, auth.uid(), now(),
+    CASE WHEN profiles.read_receipts_enabled THEN read_at END
+  FROM public.profiles
+  WHERE profiles.id = auth.uid()
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET delivered_at = EXCLUDED.delivered_at,
+    read_at = GREATEST(read_receipts.read_at, EXCLUDED.read_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_message_for_everyone(target_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.messages%ROWTYPE;
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  SELECT * INTO target
+  FROM public.messages
+  WHERE id = target_message_id
+  AND sender_id = auth.uid()
+  AND kind = 'message'
+  AND deleted_at IS NULL
+  AND created_at > now() - public.message_delete_window()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Message cannot be deleted';
+  END IF;
+
+  -- Older rows store a public URL instead of the object path
+  IF target.media_url IS NOT NULL THEN
+    DELETE FROM storage.objects
+    WHERE bucket_id = 'chat-files'
+    AND name IN (target.media_url, split_part(target.media_url, '/chat-files/', 2));
+  END IF;
+
+  DELETE FROM public.message_reactions WHERE message_id = target.id;
+  DELETE FROM public.message_revisions WHERE message_id = target.id;
+
+  UPDATE public.messages
+  SET content = '',
+    ciphertext = NULL,
+    nonce = NULL,
+    key_version = NULL,
+    ratchet_header = NULL,
+    sealed_key = NULL,
+    envelopes = NULL,
+    media_url = NULL,
+    deleted_at = now()
+  WHERE id = target.id;
+END;
+$$;
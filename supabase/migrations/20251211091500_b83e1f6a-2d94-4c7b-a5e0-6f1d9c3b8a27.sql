@@ -0,0 +1,8 @@
+-- Link codes no longer reach the server. Requests are looked up by id, and
+-- the approving device proves it knows the code with a MAC over both
+-- ephemeral keys instead.
+DELETE FROM public.device_link_requests;
+
+ALTER TABLE public.device_link_requests
+  DROP COLUMN code_hash,
+  ADD COLUMN key_confirmation text;
@@ -0,0 +1,60 @@
+-- A block freezes a direct chat: neither side can change its timer anymore,
+-- which would otherwise still post a system message into it
+CREATE OR REPLACE FUNCTION public.set_chat_disappearing_timer(target_chat_id uuid, seconds integer DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  IF public.is_chat_blocked(target_chat_id) THEN
+    RAISE EXCEPTION 'This chat is blocked';
+  END IF;
+
+  UPDATE public.chats
+  SET disappearing_seconds = seconds
+  WHERE id = target_chat_id
+  AND (
+    (type = 'direct' AND public.is_chat_member(id))
+    OR public.chat_role(id) IN ('owner', 'admin')
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chat not found';
+  END IF;
+
+  INSERT INTO public.messages (chat_id, sender_id, kind, system_event)
+  VALUES (
+    target_chat_id,
+    auth.uid(),
+    'system',
+    jsonb_build_object('type', 'disappearing_timer', 'seconds', seconds)
+  );
+END;
+$$;
+
+-- Nor can a blocked user start a new session with the other's devices
+CREATE OR REPLACE FUNCTION public.claim_one_time_prekey(target_device_id uuid)
+RETURNS TABLE (key_id integer, public_key text)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.one_time_prekeys
+  WHERE id = (
+    SELECT p.id FROM public.one_time_prekeys p
+    JOIN public.devices d ON d.id = p.device_id
+    WHERE p.device_id = target_device_id
+    AND d.revoked_at IS NULL
+    AND (d.user_id = auth.uid() OR public.shares_chat_with(d.user_id))
+    AND NOT public.has_block_with(d.user_id)
+    ORDER BY p.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING one_time_prekeys.key_id, one_time_prekeys.public_key;
+$$;
@@ -0,0 +1,39 @@
+-- Read receipts are reciprocal: whoever turns theirs off stops seeing
+-- everyone else's too. Realtime and direct reads only return receipt rows to
+-- members who share their own; delivery is still shown to everyone through
+-- get_read_receipts, with read progress left out.
+CREATE OR REPLACE FUNCTION public.shares_read_receipts()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND read_receipts_enabled);
+$$;
+
+DROP POLICY "Members can view read receipts in their chats" ON public.read_receipts;
+
+CREATE POLICY "Members can view read receipts in their chats"
+  ON public.read_receipts FOR SELECT
+  USING (
+    public.is_chat_member(chat_id)
+    AND (auth.uid() = user_id OR public.shares_read_receipts())
+  );
+
+CREATE OR REPLACE FUNCTION public.get_read_receipts(target_chat_id uuid)
+RETURNS TABLE (user_id uuid, delivered_at timestamp with time zone, read_at timestamp with time zone)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT read_receipts.user_id,
+    read_receipts.delivered_at,
+    CASE
+      WHEN read_receipts.user_id = auth.uid() OR public.shares_read_receipts() THEN read_receipts.read_at
+    END
+  FROM public.read_receipts
+  WHERE read_receipts.chat_id = target_chat_id
+  AND public.is_chat_member(target_chat_id);
+$$;
@@ -0,0 +1,13 @@
+-- Creating a direct chat makes both users members, which opens up profiles,
+-- last seen and prekeys between them, so only connected users without a
+-- block between them can start one
+DROP POLICY "Users can create direct chats" ON public.chats;
+
+CREATE POLICY "Users can create direct chats"
+  ON public.chats FOR INSERT
+  WITH CHECK (
+    type = 'direct'
+    AND (auth.uid() = user1_id OR auth.uid() = user2_id)
+    AND public.is_connected_with(CASE WHEN auth.uid() = user1_id THEN user2_id ELSE user1_id END)
+    AND NOT public.has_block_with(CASE WHEN auth.uid() = user1_id THEN user2_id ELSE user1_id END)
+  );
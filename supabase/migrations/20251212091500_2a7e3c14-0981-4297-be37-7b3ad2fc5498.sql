@@ -0,0 +1,11 @@
+-- A follow starts out as a request; only the person followed can accept it
+DROP POLICY "Users can create follow requests" ON public.follows;
+
+CREATE POLICY "Users can create follow requests"
+  ON public.follows FOR INSERT
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND status = 'pending'
+    AND NOT public.has_block_with(following_id)
+    AND NOT public.is_suspended()
+  );
@@ -0,0 +1,33 @@
+-- A follow request always stays between the same two people. The update
+-- policy only looks at who received it, so the check runs on every update.
+CREATE OR REPLACE FUNCTION public.check_follow_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.follower_id <> OLD.follower_id OR NEW.following_id <> OLD.following_id THEN
+    RAISE EXCEPTION 'A follow request cannot change who it is between';
+  END IF;
+
+  IF NEW.status = OLD.status OR OLD.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'rejected' AND NEW.status = 'pending' THEN
+    IF OLD.updated_at < now() - interval '10 minutes' THEN
+      RAISE EXCEPTION 'This rejection can no longer be undone';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'A % follow request cannot become %', OLD.status, NEW.status;
+END;
+$$;
+
+DROP TRIGGER check_follow_transition ON public.follows;
+
+CREATE TRIGGER check_follow_transition
+  BEFORE UPDATE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_follow_transition();
@@ -0,0 +1,123 @@
+-- Suspensions move off profiles, whose rows every contact can read, into a
+-- table only the suspended user and moderators can see. Only
+-- set_user_suspension() writes to it.
+CREATE TABLE public.account_suspensions (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  suspension_reason text NOT NULL,
+  suspended_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  suspended_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own suspension"
+  ON public.account_suspensions FOR SELECT
+  USING (auth.uid() = user_id OR public.is_moderator());
+
+INSERT INTO public.account_suspensions (user_id, suspension_reason, suspended_at)
+SELECT id, COALESCE(suspension_reason, ''), suspended_at
+FROM public.profiles
+WHERE suspended_at IS NOT NULL;
+
+DROP TRIGGER protect_suspension ON public.profiles;
+DROP FUNCTION public.protect_suspension();
+
+ALTER TABLE public.profiles
+  DROP COLUMN suspended_at,
+  DROP COLUMN suspension_reason;
+
+CREATE OR REPLACE FUNCTION public.is_suspended()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.account_suspensions WHERE user_id = auth.uid());
+$$;
+
+-- Suspends an account, or lifts the suspension when reason is null. Admins
+-- can't be suspended.
+CREATE OR REPLACE FUNCTION public.set_user_suspension(target_user_id uuid, reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_moderator() THEN
+    RAISE EXCEPTION 'Only moderators can suspend accounts';
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Moderators cannot suspend themselves';
+  END IF;
+
+  IF reason IS NULL THEN
+    DELETE FROM public.account_suspensions WHERE user_id = target_user_id;
+    RETURN;
+  END IF;
+
+  IF public.has_role(target_user_id, 'admin') THEN
+    RAISE EXCEPTION 'Admins cannot be suspended';
+  END IF;
+
+  INSERT INTO public.account_suspensions (user_id, suspension_reason, suspended_by)
+  VALUES (target_user_id, reason, auth.uid())
+  ON CONFLICT (user_id) DO UPDATE
+  SET
+    suspension_reason = EXCLUDED.suspension_reason,
+    suspended_by = EXCLUDED.suspended_by,
+    suspended_at = now();
+END;
+$$;
+
+-- One page of accounts for the admin console, newest first, with the total
+-- number of matches for paging
+CREATE OR REPLACE FUNCTION public.admin_list_users(
+  search_query text DEFAULT NULL,
+  result_limit integer DEFAULT 20,
+  result_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  created_at timestamp with time zone,
+  suspended_at timestamp with time zone,
+  suspension_reason text,
+  roles public.app_role[],
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pattern text := '%' || replace(replace(replace(COALESCE(trim(search_query), ''), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can list accounts';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.created_at,
+    s.suspended_at,
+    s.suspension_reason,
+    ARRAY(SELECT r.role FROM public.user_roles r WHERE r.user_id = p.id ORDER BY r.role),
+    count(*) OVER ()
+  FROM public.profiles p
+  LEFT JOIN public.account_suspensions s ON s.user_id = p.id
+  WHERE p.username ILIKE pattern OR p.full_name ILIKE pattern
+  ORDER BY p.created_at DESC
+  LIMIT LEAST(result_limit, 100)
+  OFFSET GREATEST(result_offset, 0);
+END;
+$$;
@@ -0,0 +1,37 @@
+-- A block hides each account's profile and last seen time from the other,
+-- even while they still share a chat. The blocker keeps seeing the profile
+-- through the block itself, for the list of blocked accounts.
+DROP POLICY "Profiles are viewable by people who know each other" ON public.profiles;
+
+CREATE POLICY "Profiles are viewable by people who know each other"
+  ON public.profiles FOR SELECT
+  USING (
+    auth.uid() = id
+    OR (
+      (public.shares_chat_with(id) OR public.has_follow_with(id))
+      AND NOT public.has_block_with(id)
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.blocks
+      WHERE blocks.blocker_id = auth.uid()
+      AND blocks.blocked_id = profiles.id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.get_last_seen(target_user_id uuid)
+RETURNS timestamp with time zone
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_presence.last_seen_at
+  FROM public.user_presence
+  JOIN public.profiles AS target ON target.id = user_presence.user_id
+  JOIN public.profiles AS viewer ON viewer.id = auth.uid()
+  WHERE user_presence.user_id = target_user_id
+  AND target.show_last_seen
+  AND viewer.show_last_seen
+  AND public.shares_chat_with(target_user_id)
+  AND NOT public.has_block_with(target_user_id);
+$$;
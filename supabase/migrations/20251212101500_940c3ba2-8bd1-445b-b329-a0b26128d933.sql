@@ -0,0 +1,22 @@
+-- Delivery receipts are written on the caller's behalf too, so suspended
+-- accounts are refused here like in the other write functions
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(target_chat_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_suspended() THEN
+    RAISE EXCEPTION 'Your account is suspended';
+  END IF;
+
+  INSERT INTO public.read_receipts (chat_id, user_id, delivered_at)
+  SELECT chat_members.chat_id, auth.uid(), now()
+  FROM public.chat_members
+  WHERE chat_members.user_id = auth.uid()
+  AND (target_chat_id IS NULL OR chat_members.chat_id = target_chat_id)
+  ON CONFLICT (chat_id, user_id) DO UPDATE
+  SET delivered_at = EXCLUDED.delivered_at;
+END;
+$$;
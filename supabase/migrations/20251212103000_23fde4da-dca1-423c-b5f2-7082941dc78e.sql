@@ -0,0 +1,4 @@
+-- The key that signs each device's prekeys is published next to the identity
+-- key, so safety numbers cover it and devices can be checked against it
+ALTER TABLE public.profiles
+  ADD COLUMN signing_key text;